@@ -1,7 +1,8 @@
 #!/usr/bin/env bun
 
 import { generateImage } from "../src/image/generator";
-import type { OpenCodeStats } from "../src/types";
+import type { ModelPerformance, OpenCodeStats } from "../src/types";
+import { yearRange } from "../src/utils/dates";
 import { join } from "node:path";
 
 // Generate realistic sample data
@@ -29,6 +30,21 @@ function generateDemoStats(): OpenCodeStats {
     }
   }
 
+  // Monthly totals follow the daily activity, scaled up to the card's message count
+  const monthlyActivity = Array.from({ length: 12 }, (_, i) => {
+    const month = `${year}-${String(i + 1).padStart(2, "0")}`;
+    const days = Array.from(dailyActivity.entries()).filter(([date]) => date.startsWith(month));
+    const messages = days.reduce((sum, [, count]) => sum + count, 0) * 8;
+    return {
+      month,
+      sessions: Math.round(messages / 16),
+      messages,
+      tokens: messages * 21_800,
+      recordedCost: messages * 0.016,
+      estimatedCost: messages * 0.064,
+    };
+  });
+
   // Create a streak period (highlight these days)
   const maxStreakDays = new Set<string>();
   const streakStart = new Date(year, 9, 1); // October
@@ -50,12 +66,49 @@ function generateDemoStats(): OpenCodeStats {
     168, // Saturday
   ];
 
+  // Hour-of-day distribution peaking mid-afternoon with a late-night tail
+  const hourCounts = [
+    42, 18, 6, 2, 0, 0, 3, 12, 48, 96, 134, 151, 98, 122, 168, 182, 174, 141, 88, 64, 71, 83, 90, 68,
+  ];
+  const maxHourCount = Math.max(...hourCounts);
+  const weekdayHourCounts = weekdayCounts.map((count) => hourCounts.map((h) => Math.round((h * count) / 1788)));
+
   const maxWeekdayCount = Math.max(...weekdayCounts);
   const mostActiveWeekday = weekdayCounts.indexOf(maxWeekdayCount);
   const weekdayNames = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
 
+  const modelPerformance: ModelPerformance[] = [
+    {
+      id: "anthropic/claude-sonnet-4",
+      name: "Claude Sonnet 4",
+      providerId: "anthropic",
+      messages: 4380,
+      latency: { p50: 6_400, p90: 21_800, p99: 58_300 },
+      outputTokensPerSecond: 71.4,
+    },
+    {
+      id: "openai/gpt-4o",
+      name: "GPT-4o",
+      providerId: "openai",
+      messages: 2071,
+      latency: { p50: 3_900, p90: 12_600, p99: 31_200 },
+      outputTokensPerSecond: 104.8,
+    },
+    {
+      id: "anthropic/claude-opus-4",
+      name: "Claude Opus 4",
+      providerId: "anthropic",
+      messages: 1244,
+      latency: { p50: 11_200, p90: 36_700, p99: 92_500 },
+      outputTokensPerSecond: 42.9,
+    },
+  ];
+
   return {
     year,
+    range: yearRange(year),
+    project: null,
+    dayBoundary: { timeZone: "UTC", dayStartHour: 0 },
     firstSessionDate: startDate,
     daysSinceFirstSession: Math.floor((endDate.getTime() - startDate.getTime()) / (1000 * 60 * 60 * 24)),
 
@@ -65,10 +118,50 @@ function generateDemoStats(): OpenCodeStats {
 
     totalInputTokens: 45_200_000,
     totalOutputTokens: 12_800_000,
-    totalTokens: 58_000_000,
+    totalTokens: 412_600_000,
+    tokens: {
+      input: 45_200_000,
+      output: 12_800_000,
+      reasoning: 6_900_000,
+      cacheRead: 318_400_000,
+      cacheWrite: 29_300_000,
+      total: 412_600_000,
+    },
+    cacheHitRatio: 318_400_000 / (45_200_000 + 318_400_000),
+    tokensByModel: [
+      {
+        id: "anthropic/claude-sonnet-4",
+        name: "Claude Sonnet 4",
+        providerId: "anthropic",
+        tokens: { input: 24_100_000, output: 7_300_000, reasoning: 3_200_000, cacheRead: 201_500_000, cacheWrite: 18_400_000, total: 254_500_000 },
+      },
+      {
+        id: "anthropic/claude-opus-4",
+        name: "Claude Opus 4",
+        providerId: "anthropic",
+        tokens: { input: 9_800_000, output: 2_900_000, reasoning: 2_400_000, cacheRead: 82_300_000, cacheWrite: 8_100_000, total: 105_500_000 },
+      },
+      {
+        id: "openai/gpt-4o",
+        name: "GPT-4o",
+        providerId: "openai",
+        tokens: { input: 11_300_000, output: 2_600_000, reasoning: 1_300_000, cacheRead: 34_600_000, cacheWrite: 2_800_000, total: 52_600_000 },
+      },
+    ],
 
     totalCost: 127.45,
     hasZenUsage: true,
+    recordedCost: 312.8,
+    estimatedCost: 1184.2,
+    costByModel: [
+      { id: "anthropic/claude-sonnet-4", name: "Claude Sonnet 4", recordedCost: 98.1, estimatedCost: 642.5 },
+      { id: "anthropic/claude-opus-4", name: "Claude Opus 4", recordedCost: 87.25, estimatedCost: 398.9 },
+      { id: "opencode/gpt-4o", name: "GPT-4o", recordedCost: 127.45, estimatedCost: 142.8 },
+    ],
+    costByProvider: [
+      { id: "anthropic", name: "Anthropic", recordedCost: 185.35, estimatedCost: 1041.4 },
+      { id: "opencode", name: "OpenCode Zen", recordedCost: 127.45, estimatedCost: 142.8 },
+    ],
 
     topModels: [
       { id: "claude-sonnet-4", name: "Claude Sonnet 4", providerId: "anthropic", count: 4521, percentage: 50.6 },
@@ -81,12 +174,140 @@ function generateDemoStats(): OpenCodeStats {
       { id: "openai", name: "OpenAI", count: 2134, percentage: 23.9 },
       { id: "google", name: "Google", count: 990, percentage: 11.1 },
     ],
+    providersUsed: 3,
+
+    agents: [
+      { name: "build", count: 10_412, percentage: 55.0, custom: false },
+      { name: "reviewer", count: 4_733, percentage: 25.0, custom: true },
+      { name: "plan", count: 3_789, percentage: 20.0, custom: false },
+    ],
+    modes: [
+      { name: "build", count: 11_204, percentage: 70.0, custom: false },
+      { name: "plan", count: 4_802, percentage: 30.0, custom: false },
+    ],
+    topCustomAgent: { name: "reviewer", count: 4_733, percentage: 25.0, custom: true },
+
+    modelPerformance,
+    fastestModel: modelPerformance[1],
+
+    projects: [
+      {
+        id: "a1f3",
+        name: "payments-api",
+        worktree: "/home/dev/code/payments-api",
+        sessions: 412,
+        messages: 6821,
+        tokens: 21_400_000,
+        recordedCost: 104.2,
+        estimatedCost: 431.7,
+        activeDays: 148,
+        churn: { additions: 48210, deletions: 19870, files: 1432 },
+      },
+      {
+        id: "b7c2",
+        name: "web-dashboard",
+        worktree: "/home/dev/code/web-dashboard",
+        sessions: 289,
+        messages: 4410,
+        tokens: 13_900_000,
+        recordedCost: 71.5,
+        estimatedCost: 276.3,
+        activeDays: 102,
+        churn: { additions: 31560, deletions: 14230, files: 988 },
+      },
+      {
+        id: "c9d4",
+        name: "infra",
+        worktree: "/home/dev/code/infra",
+        sessions: 156,
+        messages: 2087,
+        tokens: 6_300_000,
+        recordedCost: 33.9,
+        estimatedCost: 124.6,
+        activeDays: 61,
+        churn: { additions: 9120, deletions: 3410, files: 276 },
+      },
+    ],
+
+    reliability: {
+      id: "all",
+      name: "All models",
+      messages: 8_934,
+      finishReasons: { stop: 3_120, "tool-calls": 5_402, length: 61, error: 214, aborted: 128, other: 9 },
+      errorRate: 214 / 8_934,
+      abortRate: 128 / 8_934,
+    },
+    reliabilityByModel: [],
+    reliabilityByProvider: [
+      {
+        id: "anthropic",
+        name: "Anthropic",
+        messages: 5_810,
+        finishReasons: { stop: 1_990, "tool-calls": 3_610, length: 38, error: 96, aborted: 71, other: 5 },
+        errorRate: 96 / 5_810,
+        abortRate: 71 / 5_810,
+      },
+      {
+        id: "openai",
+        name: "OpenAI",
+        messages: 2_134,
+        finishReasons: { stop: 790, "tool-calls": 1_221, length: 19, error: 71, aborted: 31, other: 2 },
+        errorRate: 71 / 2_134,
+        abortRate: 31 / 2_134,
+      },
+      {
+        id: "google",
+        name: "Google",
+        messages: 990,
+        finishReasons: { stop: 340, "tool-calls": 571, length: 4, error: 47, aborted: 26, other: 2 },
+        errorRate: 47 / 990,
+        abortRate: 26 / 990,
+      },
+    ],
+
+    tools: [
+      { name: "read", calls: 18_420, failures: 212, failureRate: 212 / 18_310 },
+      { name: "bash", calls: 12_905, failures: 1_034, failureRate: 1_034 / 12_840 },
+      { name: "edit", calls: 9_611, failures: 388, failureRate: 388 / 9_590 },
+      { name: "grep", calls: 6_240, failures: 41, failureRate: 41 / 6_238 },
+      { name: "webfetch", calls: 402, failures: 37, failureRate: 37 / 402 },
+    ],
+    languages: [
+      { name: "TypeScript", extensions: [".ts", ".tsx"], edits: 6_105 },
+      { name: "Rust", extensions: [".rs"], edits: 1_422 },
+      { name: "Markdown", extensions: [".md"], edits: 903 },
+      { name: "JSON", extensions: [".json"], edits: 611 },
+    ],
+
+    sessionTime: {
+      totalDuration: 1_532 * 60 * 60 * 1000,
+      medianDuration: 38 * 60 * 1000,
+      activeTime: 486 * 60 * 60 * 1000,
+      longestSession: {
+        id: "ses_long",
+        title: "Untangle the flaky checkout tests",
+        project: "web-dashboard",
+        duration: (6 * 60 + 42) * 60 * 1000,
+      },
+    },
+
+    codeChurn: { additions: 112_480, deletions: 46_930, files: 3_214 },
+    churnByYear: new Map([[String(year), { additions: 112_480, deletions: 46_930, files: 3_214 }]]),
+    dailyChurn: new Map(),
+    biggestSession: {
+      id: "ses_demo",
+      title: "Migrate billing to the new ledger",
+      project: "payments-api",
+      date: `${year}-10-15`,
+      churn: { additions: 4_812, deletions: 2_266, files: 87 },
+    },
 
     maxStreak: 21,
     currentStreak: 8,
     maxStreakDays,
 
     dailyActivity,
+    monthlyActivity,
 
     mostActiveDay: {
       date: "2025-10-15",
@@ -100,6 +321,15 @@ function generateDemoStats(): OpenCodeStats {
       mostActiveDayName: weekdayNames[mostActiveWeekday],
       maxCount: maxWeekdayCount,
     },
+
+    hourlyActivity: {
+      counts: hourCounts,
+      weekdayHourCounts,
+      peakHour: hourCounts.indexOf(maxHourCount),
+      maxCount: maxHourCount,
+      chronotype: "nine-to-five",
+      chronotypeLabel: "Nine-to-Fiver",
+    },
   };
 }
 
@@ -29,6 +29,15 @@ if (dryRun) {
   console.log("⚠️  Dry run mode: no packages will be published to npm\n");
 }
 
+// Refresh the bundled models catalog, offline runs rely on it for model names and prices
+console.log("📚 Updating models.dev snapshot...");
+try {
+  await $`bun run scripts/update-models-snapshot.ts`;
+} catch (error) {
+  console.error("   ❌ Failed to update snapshot, not publishing with a stale catalog:", error);
+  process.exit(1);
+}
+
 // Build all platforms
 const binaries = await buildTargets(version);
 
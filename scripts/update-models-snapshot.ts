@@ -0,0 +1,16 @@
+#!/usr/bin/env bun
+
+// Refresh the models.dev catalog bundled for offline runs
+
+import path from "path";
+import { downloadCatalog } from "../src/models";
+
+const snapshotPath = path.resolve(import.meta.dir, "..", "assets", "models-snapshot.json");
+
+const catalog = await downloadCatalog();
+const modelCount = Object.values(catalog).reduce((sum, provider) => sum + Object.keys(provider.models ?? {}).length, 0);
+
+// Unindented, it ships with every install
+await Bun.write(snapshotPath, JSON.stringify(catalog));
+
+console.log(`✅ Wrote ${Object.keys(catalog).length} providers, ${modelCount} models to ${path.relative(process.cwd(), snapshotPath)}`);
@@ -0,0 +1,159 @@
+import { describe, expect, test } from "bun:test";
+import { ACHIEVEMENT_RULES, evaluateAchievements } from "./achievements";
+import type { OpenCodeStats } from "./types";
+import { yearRange } from "./utils/dates";
+
+/** Stats of a range without any activity; tests override the fields a rule reads */
+function makeStats(overrides: Partial<OpenCodeStats> = {}): OpenCodeStats {
+  const noChurn = { additions: 0, deletions: 0, files: 0 };
+  const noReliability = {
+    id: "all",
+    name: "All models",
+    messages: 0,
+    finishReasons: { stop: 0, "tool-calls": 0, length: 0, error: 0, aborted: 0, other: 0 },
+    errorRate: 0,
+    abortRate: 0,
+  };
+
+  return {
+    year: 2025,
+    range: yearRange(2025),
+    project: null,
+    dayBoundary: { timeZone: "UTC", dayStartHour: 0 },
+    firstSessionDate: new Date(Date.UTC(2025, 0, 1)),
+    daysSinceFirstSession: 0,
+    totalSessions: 0,
+    totalMessages: 0,
+    totalProjects: 0,
+    totalInputTokens: 0,
+    totalOutputTokens: 0,
+    totalTokens: 0,
+    tokens: { input: 0, output: 0, reasoning: 0, cacheRead: 0, cacheWrite: 0, total: 0 },
+    cacheHitRatio: 0,
+    tokensByModel: [],
+    totalCost: 0,
+    hasZenUsage: false,
+    recordedCost: 0,
+    estimatedCost: 0,
+    costByModel: [],
+    costByProvider: [],
+    topModels: [],
+    topProviders: [],
+    providersUsed: 0,
+    agents: [],
+    modes: [],
+    topCustomAgent: null,
+    modelPerformance: [],
+    fastestModel: null,
+    projects: [],
+    reliability: noReliability,
+    reliabilityByModel: [],
+    reliabilityByProvider: [],
+    tools: [],
+    languages: [],
+    sessionTime: { totalDuration: 0, medianDuration: 0, activeTime: 0, longestSession: null },
+    codeChurn: noChurn,
+    churnByYear: new Map(),
+    dailyChurn: new Map(),
+    biggestSession: null,
+    maxStreak: 0,
+    currentStreak: 0,
+    maxStreakDays: new Set(),
+    dailyActivity: new Map(),
+    monthlyActivity: [],
+    mostActiveDay: null,
+    weekdayActivity: { counts: [0, 0, 0, 0, 0, 0, 0], mostActiveDay: 0, mostActiveDayName: "Sunday", maxCount: 0 },
+    hourlyActivity: {
+      counts: new Array(24).fill(0),
+      weekdayHourCounts: Array.from({ length: 7 }, () => new Array(24).fill(0)),
+      peakHour: 0,
+      maxCount: 0,
+      chronotype: "nine-to-five",
+      chronotypeLabel: "Nine-to-Fiver",
+    },
+    ...overrides,
+  };
+}
+
+function hours(counts: Record<number, number>): OpenCodeStats["hourlyActivity"] {
+  return {
+    ...makeStats().hourlyActivity,
+    counts: Array.from({ length: 24 }, (_, hour) => counts[hour] ?? 0),
+  };
+}
+
+function tierOf(stats: OpenCodeStats, id: string) {
+  return evaluateAchievements(stats).find((a) => a.id === id)?.tier;
+}
+
+describe("evaluateAchievements", () => {
+  test("empty stats earn nothing", () => {
+    expect(evaluateAchievements(makeStats())).toEqual([]);
+  });
+
+  test("tiers start exactly at their thresholds", () => {
+    expect(tierOf(makeStats({ maxStreak: 6 }), "streak")).toBeUndefined();
+    expect(tierOf(makeStats({ maxStreak: 7 }), "streak")).toBe("bronze");
+    expect(tierOf(makeStats({ maxStreak: 29 }), "streak")).toBe("bronze");
+    expect(tierOf(makeStats({ maxStreak: 30 }), "streak")).toBe("silver");
+    expect(tierOf(makeStats({ maxStreak: 99 }), "streak")).toBe("silver");
+    expect(tierOf(makeStats({ maxStreak: 100 }), "streak")).toBe("gold");
+  });
+
+  test("descriptions name the tier threshold, not the measured value", () => {
+    const [achievement] = evaluateAchievements(makeStats({ maxStreak: 45 }));
+    expect(achievement).toMatchObject({ id: "streak", tier: "silver", value: 45, description: "30-day streak" });
+  });
+
+  test("gold comes first, then rule order", () => {
+    const stats = makeStats({ maxStreak: 7, totalSessions: 2_000, providersUsed: 5 });
+    expect(evaluateAchievements(stats).map((a) => [a.id, a.tier])).toEqual([
+      ["sessions", "gold"],
+      ["polyglot", "silver"],
+      ["streak", "bronze"],
+    ]);
+  });
+
+  test("share-based rules earn nothing from an empty histogram", () => {
+    const achievements = evaluateAchievements(makeStats());
+    for (const id of ["night-owl", "early-bird", "weekend-warrior"]) {
+      expect(achievements.find((a) => a.id === id)).toBeUndefined();
+    }
+    const nightOwl = ACHIEVEMENT_RULES.find((rule) => rule.id === "night-owl")!;
+    expect(nightOwl.measure(makeStats())).toBe(0);
+  });
+
+  test("share-based rules compare the share of messages", () => {
+    // 1 of 4 messages after 10pm is exactly the bronze share
+    expect(tierOf(makeStats({ hourlyActivity: hours({ 23: 1, 12: 3 }) }), "night-owl")).toBe("bronze");
+    expect(tierOf(makeStats({ hourlyActivity: hours({ 23: 24, 12: 76 }) }), "night-owl")).toBeUndefined();
+    // Hours wrap past midnight, up to the end of the 4am hour like the chronotype
+    expect(tierOf(makeStats({ hourlyActivity: hours({ 2: 5, 12: 5 }) }), "night-owl")).toBe("gold");
+    expect(tierOf(makeStats({ hourlyActivity: hours({ 4: 1, 12: 3 }) }), "night-owl")).toBe("bronze");
+
+    const weekend: OpenCodeStats["weekdayActivity"] = {
+      ...makeStats().weekdayActivity,
+      counts: [3, 1, 1, 1, 1, 0, 3],
+    };
+    expect(tierOf(makeStats({ weekdayActivity: weekend }), "weekend-warrior")).toBe("gold");
+  });
+
+  test("polyglot counts providers used, priced or not", () => {
+    expect(tierOf(makeStats({ providersUsed: 3, costByProvider: [] }), "polyglot")).toBe("bronze");
+  });
+
+  test("custom rules replace the built-in ones", () => {
+    const rules = [
+      {
+        id: "messages",
+        name: "Chatty",
+        measure: (s: OpenCodeStats) => s.totalMessages,
+        tiers: { bronze: 1, silver: 10, gold: 100 },
+        describe: (messages: number) => `${messages} messages`,
+      },
+    ];
+    expect(evaluateAchievements(makeStats({ totalMessages: 10, maxStreak: 100 }), rules)).toEqual([
+      { id: "messages", name: "Chatty", description: "10 messages", tier: "silver", value: 10 },
+    ]);
+  });
+});
@@ -0,0 +1,120 @@
+// Achievements - declarative rules evaluated against OpenCodeStats
+
+import type { Achievement, AchievementTier, OpenCodeStats } from "./types";
+import { EARLY_BIRD_SHARE, MORNING_HOURS, NIGHT_HOURS, NIGHT_OWL_SHARE } from "./stats";
+import { formatNumber } from "./utils/format";
+
+export interface AchievementRule {
+  id: string;
+  name: string;
+  /** The measured value the tiers are compared against */
+  measure: (stats: OpenCodeStats) => number;
+  /** Minimum value for each tier */
+  tiers: Record<AchievementTier, number>;
+  describe: (threshold: number) => string;
+}
+
+const TIERS: AchievementTier[] = ["gold", "silver", "bronze"];
+
+export const ACHIEVEMENT_RULES: AchievementRule[] = [
+  {
+    id: "streak",
+    name: "On a Roll",
+    measure: (s) => s.maxStreak,
+    tiers: { bronze: 7, silver: 30, gold: 100 },
+    describe: (days) => `${days}-day streak`,
+  },
+  {
+    id: "tokens",
+    name: "Token Burner",
+    measure: (s) => s.totalTokens,
+    tiers: { bronze: 10_000_000, silver: 100_000_000, gold: 1_000_000_000 },
+    describe: (tokens) => `${formatNumber(tokens)} tokens`,
+  },
+  {
+    id: "sessions",
+    name: "Regular",
+    measure: (s) => s.totalSessions,
+    tiers: { bronze: 100, silver: 500, gold: 2_000 },
+    describe: (sessions) => `${formatNumber(sessions)} sessions`,
+  },
+  {
+    id: "lines-changed",
+    name: "Code Machine",
+    measure: (s) => s.codeChurn.additions + s.codeChurn.deletions,
+    tiers: { bronze: 10_000, silver: 100_000, gold: 1_000_000 },
+    describe: (lines) => `${formatNumber(lines)} lines changed`,
+  },
+  {
+    id: "night-owl",
+    name: "Night Owl",
+    measure: (s) => share(s.hourlyActivity.counts, (hour) => NIGHT_HOURS.includes(hour)),
+    // Bronze starts where the card labels you a night owl
+    tiers: { bronze: NIGHT_OWL_SHARE, silver: 0.35, gold: 0.5 },
+    describe: (ratio) => `${Math.round(ratio * 100)}%+ of messages after 10pm`,
+  },
+  {
+    id: "early-bird",
+    name: "Early Bird",
+    measure: (s) => share(s.hourlyActivity.counts, (hour) => MORNING_HOURS.includes(hour)),
+    tiers: { bronze: EARLY_BIRD_SHARE, silver: 0.25, gold: 0.4 },
+    describe: (ratio) => `${Math.round(ratio * 100)}%+ of messages before 9am`,
+  },
+  {
+    id: "weekend-warrior",
+    name: "Weekend Warrior",
+    measure: (s) => share(s.weekdayActivity.counts, (day) => day === 0 || day === 6),
+    tiers: { bronze: 0.3, silver: 0.45, gold: 0.6 },
+    describe: (ratio) => `${Math.round(ratio * 100)}%+ of messages on weekends`,
+  },
+  {
+    id: "polyglot",
+    name: "Polyglot",
+    measure: (s) => s.providersUsed,
+    tiers: { bronze: 3, silver: 5, gold: 8 },
+    describe: (providers) => `${providers}+ providers`,
+  },
+  {
+    id: "multilingual",
+    name: "Multilingual",
+    measure: (s) => s.languages.length,
+    tiers: { bronze: 3, silver: 5, gold: 10 },
+    describe: (languages) => `Edited ${languages}+ languages`,
+  },
+  {
+    id: "agent-smith",
+    name: "Agent Smith",
+    measure: (s) => s.agents.filter((a) => a.custom).length,
+    tiers: { bronze: 1, silver: 3, gold: 5 },
+    describe: (agents) => (agents === 1 ? "Used a custom agent" : `Used ${agents}+ custom agents`),
+  },
+  {
+    id: "toolsmith",
+    name: "Toolsmith",
+    measure: (s) => s.tools.reduce((sum, t) => sum + t.calls, 0),
+    tiers: { bronze: 1_000, silver: 10_000, gold: 100_000 },
+    describe: (calls) => `${formatNumber(calls)} tool calls`,
+  },
+];
+
+/** Highest tier earned for each rule, gold first, then in rule order */
+export function evaluateAchievements(stats: OpenCodeStats, rules: AchievementRule[] = ACHIEVEMENT_RULES): Achievement[] {
+  const achievements: Achievement[] = [];
+
+  for (const rule of rules) {
+    const value = rule.measure(stats);
+    const tier = TIERS.find((t) => value >= rule.tiers[t]);
+    if (tier) {
+      achievements.push({ id: rule.id, name: rule.name, description: rule.describe(rule.tiers[tier]), tier, value });
+    }
+  }
+
+  return achievements.sort((a, b) => TIERS.indexOf(a.tier) - TIERS.indexOf(b.tier));
+}
+
+/** Share of the total falling in buckets whose index matches */
+function share(counts: number[], matches: (index: number) => boolean): number {
+  const total = counts.reduce((sum, count) => sum + count, 0);
+  if (total === 0) return 0;
+  return counts.reduce((sum, count, i) => sum + (matches(i) ? count : 0), 0) / total;
+}
@@ -0,0 +1,108 @@
+// Persistent file indexes - let repeated runs skip re-parsing unchanged message and part files
+
+import { dirname, join } from "node:path";
+import { xdgCache } from "xdg-basedir";
+import type { MessageData, PartData } from "./types";
+
+/** Bump whenever the cached shape changes so stale indexes are discarded */
+const CACHE_VERSION = 2;
+
+const CACHE_DIR = xdgCache ? join(xdgCache, "oc-wrapped") : null;
+
+interface FileFingerprint {
+  mtimeMs: number;
+  size: number;
+}
+
+interface CacheEntry<T> extends FileFingerprint {
+  // null marks files that failed to parse, so they aren't retried until they change
+  value: T | null;
+}
+
+interface CacheFile<T> {
+  version: number;
+  entries: Record<string, CacheEntry<T>>;
+}
+
+export interface FileCache<T> {
+  /** Returns the cached value, null for a cached unparseable file, or undefined on a miss */
+  get(filePath: string, fingerprint: FileFingerprint): T | null | undefined;
+  set(filePath: string, fingerprint: FileFingerprint, value: T | null): void;
+  /** Persist entries seen in this run, dropping deleted files under the scanned roots */
+  save(): Promise<void>;
+}
+
+export type MessageCache = FileCache<MessageData>;
+export type PartCache = FileCache<PartData>;
+
+export function openMessageCache(dataPaths: string[], options: { rebuild?: boolean } = {}): Promise<MessageCache> {
+  return openFileCache<MessageData>("messages.json", dataPaths, options);
+}
+
+/** Parts are only read for messages in range, so `roots` are the per-message part dirs being scanned */
+export function openPartCache(roots: string[], options: { rebuild?: boolean } = {}): Promise<PartCache> {
+  return openFileCache<PartData>("parts.json", roots, options);
+}
+
+async function openFileCache<T>(fileName: string, roots: string[], { rebuild = false } = {}): Promise<FileCache<T>> {
+  const cachePath = CACHE_DIR ? join(CACHE_DIR, fileName) : null;
+  const previous = rebuild || !cachePath ? {} : await readCacheEntries<T>(cachePath);
+  const seen: Record<string, CacheEntry<T>> = {};
+
+  return {
+    get(filePath, { mtimeMs, size }) {
+      const entry = previous[filePath];
+      if (!entry || entry.mtimeMs !== mtimeMs || entry.size !== size) {
+        return undefined;
+      }
+      seen[filePath] = entry;
+      return entry.value;
+    },
+
+    set(filePath, { mtimeMs, size }, value) {
+      seen[filePath] = { mtimeMs, size, value };
+    },
+
+    async save() {
+      if (!cachePath) return;
+
+      // Entries from roots that weren't scanned this run are kept as-is. Looking up each entry's parent dirs keeps
+      // this linear, there can be tens of thousands of roots when they're per-message part dirs
+      const scanned = new Set(roots);
+      const entries: Record<string, CacheEntry<T>> = {};
+      for (const [filePath, entry] of Object.entries(previous)) {
+        if (!isUnderRoot(filePath, scanned)) {
+          entries[filePath] = entry;
+        }
+      }
+      Object.assign(entries, seen);
+
+      try {
+        const file: CacheFile<T> = { version: CACHE_VERSION, entries };
+        await Bun.write(cachePath, JSON.stringify(file));
+      } catch {
+        // Cache is best-effort, a read-only cache dir just means slower runs
+      }
+    },
+  };
+}
+
+function isUnderRoot(filePath: string, roots: Set<string>): boolean {
+  for (let dir = dirname(filePath); ; dir = dirname(dir)) {
+    if (roots.has(dir)) return true;
+    if (dirname(dir) === dir) return false;
+  }
+}
+
+async function readCacheEntries<T>(cachePath: string): Promise<Record<string, CacheEntry<T>>> {
+  try {
+    const file = (await Bun.file(cachePath).json()) as CacheFile<T>;
+    if (file?.version !== CACHE_VERSION || !file.entries || typeof file.entries !== "object") {
+      return {};
+    }
+    return file.entries;
+  } catch {
+    // Missing or corrupt cache, start fresh
+    return {};
+  }
+}
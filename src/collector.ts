@@ -1,23 +1,131 @@
 // Data collector - reads OpenCode storage and returns raw data
 
-import { readdir } from "node:fs/promises";
-import { join } from "node:path";
+import { readdir, stat } from "node:fs/promises";
+import { delimiter, join, resolve } from "node:path";
 import { xdgData } from "xdg-basedir";
-import type { SessionData, MessageData, ProjectData } from "./types";
+import { openMessageCache, openPartCache, type MessageCache, type PartCache } from "./cache";
+import { DEFAULT_DAY_BOUNDARY, isInRange } from "./utils/dates";
+import type { DateRange, DayBoundary, SessionData, MessageData, PartData, ProjectData } from "./types";
 
-const OPENCODE_DATA_PATH = join(xdgData!, "opencode/storage");
+export const DEFAULT_DATA_PATH = join(xdgData!, "opencode/storage");
 
-export async function checkOpenCodeDataExists(): Promise<boolean> {
+/** Part files open at once, well below the usual open file limit of 1024 */
+const PART_READ_CONCURRENCY = 64;
+
+/** Environment variable with one or more storage roots, separated like PATH */
+export const DATA_DIR_ENV = "OC_WRAPPED_DATA_DIR";
+
+/**
+ * Resolve the storage roots to read from: explicit dirs, then $OC_WRAPPED_DATA_DIR, then the XDG default.
+ * Each dir may be either the OpenCode data dir (containing storage/) or the storage dir itself.
+ */
+export async function resolveDataPaths(dirs?: string[]): Promise<string[]> {
+  const requested = dirs?.length ? dirs : (process.env[DATA_DIR_ENV]?.split(delimiter).filter(Boolean) ?? []);
+  if (requested.length === 0) {
+    return [DEFAULT_DATA_PATH];
+  }
+
+  const paths = await Promise.all(
+    requested.map(async (dir) => {
+      const storagePath = join(resolve(dir), "storage");
+      try {
+        if ((await stat(storagePath)).isDirectory()) return storagePath;
+      } catch {
+        // Not a data dir, assume it's the storage dir itself
+      }
+      return resolve(dir);
+    })
+  );
+
+  return Array.from(new Set(paths));
+}
+
+/**
+ * Whether any root has sessions or messages. Roots without them (missing, or a machine that never ran OpenCode)
+ * are reported and then skipped while collecting, so one empty root doesn't stop the others from being wrapped.
+ */
+export async function checkOpenCodeDataExists(dataPaths: string[] = [DEFAULT_DATA_PATH]): Promise<boolean> {
+  const found = await Promise.all(
+    dataPaths.map(async (dataPath) => (await hasDir(join(dataPath, "session"))) || hasDir(join(dataPath, "message")))
+  );
+  if (!found.some(Boolean)) return false;
+
+  dataPaths.forEach((dataPath, i) => {
+    if (!found[i]) console.warn(`No OpenCode data in ${dataPath}, skipping it`);
+  });
+  return true;
+}
+
+async function hasDir(path: string): Promise<boolean> {
   try {
-    await readdir(OPENCODE_DATA_PATH);
-    return true;
+    return (await stat(path)).isDirectory();
   } catch {
     return false;
   }
 }
 
-export async function collectSessions(year?: number): Promise<SessionData[]> {
-  const sessionsPath = join(OPENCODE_DATA_PATH, "session");
+export async function collectSessions(
+  range?: DateRange,
+  dataPaths: string[] = [DEFAULT_DATA_PATH],
+  { dayBoundary = DEFAULT_DAY_BOUNDARY } = {}
+): Promise<SessionData[]> {
+  const results = await Promise.all(dataPaths.map((dataPath) => collectSessionsFrom(dataPath, range, dayBoundary)));
+  // The same session can show up in several roots (e.g. a copied storage dir), keep the latest copy
+  return dedupeById(results.flat(), (a, b) => b.time.updated > a.time.updated);
+}
+
+export async function collectMessages(
+  range?: DateRange,
+  dataPaths: string[] = [DEFAULT_DATA_PATH],
+  { rebuildCache = false, dayBoundary = DEFAULT_DAY_BOUNDARY } = {}
+): Promise<MessageData[]> {
+  const cache = await openMessageCache(dataPaths, { rebuild: rebuildCache });
+  const results = await Promise.all(
+    dataPaths.map((dataPath) => collectMessagesFrom(dataPath, cache, range, dayBoundary))
+  );
+  await cache.save();
+  return dedupeById(results.flat());
+}
+
+/** Parts (tool calls, text, patches) of the given messages, read from storage/part/<messageID>/ */
+export async function collectParts(
+  messages: MessageData[],
+  dataPaths: string[] = [DEFAULT_DATA_PATH],
+  { rebuildCache = false } = {}
+): Promise<PartData[]> {
+  const messageIds = new Set(messages.map((m) => m.id));
+  const partDirs = (await Promise.all(dataPaths.map((dataPath) => listPartDirs(dataPath, messageIds)))).flat();
+
+  const cache = await openPartCache(partDirs, { rebuild: rebuildCache });
+  const partFiles = (await mapWithConcurrency(partDirs, PART_READ_CONCURRENCY, listPartFiles)).flat();
+  const parts = await mapWithConcurrency(partFiles, PART_READ_CONCURRENCY, (filePath) => readPart(filePath, cache));
+  await cache.save();
+  return dedupeById(parts.filter((p): p is PartData => p !== null));
+}
+
+export async function collectProjects(dataPaths: string[] = [DEFAULT_DATA_PATH]): Promise<ProjectData[]> {
+  const results = await Promise.all(dataPaths.map((dataPath) => collectProjectsFrom(dataPath)));
+  return dedupeById(results.flat(), (a, b) => b.time.updated > a.time.updated);
+}
+
+/** Keep one item per id; `replace(kept, candidate)` decides whether a later duplicate wins */
+function dedupeById<T extends { id: string }>(items: T[], replace?: (kept: T, candidate: T) => boolean): T[] {
+  const byId = new Map<string, T>();
+  for (const item of items) {
+    const kept = byId.get(item.id);
+    if (!kept || replace?.(kept, item)) {
+      byId.set(item.id, item);
+    }
+  }
+  return Array.from(byId.values());
+}
+
+async function collectSessionsFrom(
+  dataPath: string,
+  range: DateRange | undefined,
+  dayBoundary: DayBoundary
+): Promise<SessionData[]> {
+  const sessionsPath = join(dataPath, "session");
 
   try {
     const projectDirs = await readdir(sessionsPath);
@@ -33,7 +141,7 @@ export async function collectSessions(year?: number): Promise<SessionData[]> {
               .map(async (sessionFile) => {
                 try {
                   const session = (await Bun.file(join(projectPath, sessionFile)).json()) as SessionData;
-                  if (year && new Date(session.time.created).getFullYear() !== year) return null;
+                  if (range && !isInRange(session.time.created, range, dayBoundary)) return null;
                   return session;
                 } catch {
                   return null;
@@ -48,12 +156,19 @@ export async function collectSessions(year?: number): Promise<SessionData[]> {
 
     return results.flat().filter((s): s is SessionData => s !== null);
   } catch (error) {
+    // Roots without sessions were reported by checkOpenCodeDataExists()
+    if (isNotFound(error)) return [];
     throw new Error(`Failed to read sessions: ${error}`);
   }
 }
 
-export async function collectMessages(year?: number): Promise<MessageData[]> {
-  const messagesPath = join(OPENCODE_DATA_PATH, "message");
+async function collectMessagesFrom(
+  dataPath: string,
+  cache: MessageCache,
+  range: DateRange | undefined,
+  dayBoundary: DayBoundary
+): Promise<MessageData[]> {
+  const messagesPath = join(dataPath, "message");
 
   try {
     const sessionDirs = await readdir(messagesPath);
@@ -67,13 +182,10 @@ export async function collectMessages(year?: number): Promise<MessageData[]> {
             messageFiles
               .filter((f) => f.endsWith(".json"))
               .map(async (messageFile) => {
-                try {
-                  const message = (await Bun.file(join(sessionPath, messageFile)).json()) as MessageData;
-                  if (year && new Date(message.time.created).getFullYear() !== year) return null;
-                  return message;
-                } catch {
-                  return null;
-                }
+                const message = await readMessage(join(sessionPath, messageFile), cache);
+                if (!message) return null;
+                if (range && !isInRange(message.time.created, range, dayBoundary)) return null;
+                return message;
               })
           );
         } catch {
@@ -84,12 +196,112 @@ export async function collectMessages(year?: number): Promise<MessageData[]> {
 
     return results.flat().filter((m): m is MessageData => m !== null);
   } catch (error) {
+    if (isNotFound(error)) return [];
     throw new Error(`Failed to read messages: ${error}`);
   }
 }
 
-export async function collectProjects(): Promise<ProjectData[]> {
-  const projectsPath = join(OPENCODE_DATA_PATH, "project");
+async function readMessage(filePath: string, cache: MessageCache): Promise<MessageData | null> {
+  try {
+    const fingerprint = await stat(filePath);
+    const cached = cache.get(filePath, fingerprint);
+    if (cached !== undefined) return cached;
+
+    let message: MessageData | null = null;
+    try {
+      message = (await Bun.file(filePath).json()) as MessageData;
+    } catch {
+      // Invalid JSON, remembered as null until the file changes
+    }
+    cache.set(filePath, fingerprint, message);
+    return message;
+  } catch {
+    return null;
+  }
+}
+
+async function listPartDirs(dataPath: string, messageIds: Set<string>): Promise<string[]> {
+  const partsPath = join(dataPath, "part");
+
+  try {
+    const messageDirs = await readdir(partsPath);
+    return messageDirs.filter((dir) => messageIds.has(dir)).map((dir) => join(partsPath, dir));
+  } catch {
+    // Older OpenCode versions don't store parts
+    return [];
+  }
+}
+
+/**
+ * Part dirs and files can disappear while OpenCode is running, so missing ones are skipped. Any other error, like
+ * running out of file handles, is thrown: skipping it would quietly drop tool and language stats.
+ */
+async function listPartFiles(partDir: string): Promise<string[]> {
+  try {
+    const partFiles = await readdir(partDir);
+    return partFiles.filter((f) => f.endsWith(".json")).map((partFile) => join(partDir, partFile));
+  } catch (error) {
+    if (isNotFound(error)) return [];
+    throw new Error(`Failed to read parts: ${error}`);
+  }
+}
+
+async function readPart(filePath: string, cache: PartCache): Promise<PartData | null> {
+  let fingerprint;
+  let text;
+  try {
+    fingerprint = await stat(filePath);
+    const cached = cache.get(filePath, fingerprint);
+    if (cached !== undefined) return cached;
+    text = await Bun.file(filePath).text();
+  } catch (error) {
+    if (isNotFound(error)) return null;
+    throw new Error(`Failed to read parts: ${error}`);
+  }
+
+  let part: PartData | null = null;
+  try {
+    part = trimPart(JSON.parse(text));
+  } catch {
+    // Invalid JSON, remembered as null until the file changes
+  }
+  cache.set(filePath, fingerprint, part);
+  return part;
+}
+
+function isNotFound(error: unknown): boolean {
+  return (error as NodeJS.ErrnoException)?.code === "ENOENT";
+}
+
+/** Like Promise.all over `items.map(fn)`, with at most `limit` calls in flight */
+async function mapWithConcurrency<T, R>(items: T[], limit: number, fn: (item: T) => Promise<R>): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+  const workers = Array.from({ length: Math.min(limit, items.length) }, async () => {
+    while (next < items.length) {
+      const i = next++;
+      results[i] = await fn(items[i]);
+    }
+  });
+  await Promise.all(workers);
+  return results;
+}
+
+/** Tool inputs and outputs can be huge, keep only what stats need */
+function trimPart(raw: PartData): PartData {
+  const part: PartData = { id: raw.id, sessionID: raw.sessionID, messageID: raw.messageID, type: raw.type };
+  if (raw.tool) part.tool = raw.tool;
+  if (raw.state) {
+    part.state = { status: raw.state.status };
+    if (typeof raw.state.input?.filePath === "string") {
+      part.state.input = { filePath: raw.state.input.filePath };
+    }
+  }
+  return part;
+}
+
+async function collectProjectsFrom(dataPath: string): Promise<ProjectData[]> {
+  const projectsPath = join(dataPath, "project");
 
   try {
     const projectFiles = await readdir(projectsPath);
@@ -0,0 +1,50 @@
+// Year-over-year comparison - deltas between the stats of two periods
+
+import type { ComparedMetric, OpenCodeStats, StatDelta, StatsComparison } from "./types";
+import { formatCost, formatDuration, formatNumber } from "./utils/format";
+
+interface MetricDefinition {
+  label: string;
+  value: (stats: OpenCodeStats) => number;
+  format: (value: number) => string;
+}
+
+export const COMPARED_METRICS: Record<ComparedMetric, MetricDefinition> = {
+  sessions: { label: "Sessions", value: (s) => s.totalSessions, format: formatNumber },
+  messages: { label: "Messages", value: (s) => s.totalMessages, format: formatNumber },
+  tokens: { label: "Tokens", value: (s) => s.totalTokens, format: formatNumber },
+  linesChanged: {
+    label: "Lines Changed",
+    value: (s) => s.codeChurn.additions + s.codeChurn.deletions,
+    format: formatNumber,
+  },
+  activeTime: { label: "Time with AI", value: (s) => s.sessionTime.activeTime, format: formatDuration },
+  projects: { label: "Projects", value: (s) => s.totalProjects, format: formatNumber },
+  streak: { label: "Streak", value: (s) => s.maxStreak, format: (days) => `${days} days` },
+  zenCost: { label: "Zen Cost", value: (s) => s.totalCost, format: formatCost },
+  estimatedCost: { label: "Est. Cost", value: (s) => s.estimatedCost, format: formatCost },
+};
+
+export function compareStats(current: OpenCodeStats, previous: OpenCodeStats): StatsComparison {
+  const deltas = {} as Record<ComparedMetric, StatDelta>;
+  for (const [key, metric] of Object.entries(COMPARED_METRICS) as [ComparedMetric, MetricDefinition][]) {
+    const [now, before] = [metric.value(current), metric.value(previous)];
+    deltas[key] = { previous: before, current: now, change: before > 0 ? (now - before) / before : null };
+  }
+  return { range: previous.range, deltas };
+}
+
+/** "+240%", "-12%", "±0%", or "new" when the previous period had none */
+export function formatDelta(delta: StatDelta): string {
+  if (delta.change === null) return delta.current > 0 ? "new" : "±0%";
+
+  const percent = Math.round(delta.change * 100);
+  if (percent === 0) return "±0%";
+  return `${percent > 0 ? "+" : ""}${percent.toLocaleString("en-US")}%`;
+}
+
+/** "12 days → 31 days (+158%)" */
+export function describeDelta(key: ComparedMetric, delta: StatDelta): string {
+  const { format } = COMPARED_METRICS[key];
+  return `${format(delta.previous)} → ${format(delta.current)} (${formatDelta(delta)})`;
+}
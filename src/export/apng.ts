@@ -0,0 +1,115 @@
+// APNG export - joins rendered PNG frames into one animated PNG
+
+export interface ApngFrame {
+  png: Uint8Array;
+  delayMs: number;
+}
+
+const PNG_SIGNATURE = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+interface PngChunk {
+  type: string;
+  data: Uint8Array;
+}
+
+/**
+ * Build an animated PNG that loops forever. Frames must share their size and pixel format, which holds for frames
+ * rendered from the same canvas. Their compressed image data is copied over as is, nothing is decoded.
+ *
+ * Viewers without APNG support show the default image, which is a copy of the last frame: the finished card
+ * makes a better still than the first frame of the animation.
+ */
+export function createApng(frames: ApngFrame[]): Uint8Array {
+  if (frames.length === 0) {
+    throw new Error("An animation needs at least one frame");
+  }
+
+  const decoded = frames.map((frame) => readChunks(frame.png));
+  const header = decoded[0].find((chunk) => chunk.type === "IHDR");
+  if (!header) {
+    throw new Error("Frame 1 is not a valid PNG: no IHDR chunk");
+  }
+  decoded.forEach((chunks, i) => {
+    const frameHeader = chunks.find((chunk) => chunk.type === "IHDR");
+    if (!frameHeader || !Buffer.from(frameHeader.data).equals(header.data)) {
+      throw new Error(`Frame ${i + 1} doesn't match the size or pixel format of the first frame`);
+    }
+  });
+
+  const headerView = new DataView(header.data.buffer, header.data.byteOffset);
+  const width = headerView.getUint32(0);
+  const height = headerView.getUint32(4);
+
+  const chunks: PngChunk[] = [header, { type: "acTL", data: uint32s(frames.length, 0) }]; // Frame count, loop forever
+  // Without an fcTL in front, the default image isn't part of the animation
+  chunks.push(...decoded[decoded.length - 1].filter((chunk) => chunk.type === "IDAT"));
+
+  let sequence = 0;
+  decoded.forEach((frameChunks, i) => {
+    const control = new Uint8Array(26);
+    const view = new DataView(control.buffer);
+    view.setUint32(0, sequence++);
+    view.setUint32(4, width);
+    view.setUint32(8, height);
+    // x and y offsets stay zero, every frame covers the whole canvas
+    view.setUint16(20, Math.min(Math.round(frames[i].delayMs), 0xffff)); // Delay numerator
+    view.setUint16(22, 1000); // Delay denominator, in milliseconds
+    // Dispose and blend ops stay zero: keep the frame, replace the pixels
+    chunks.push({ type: "fcTL", data: control });
+
+    for (const { type, data } of frameChunks) {
+      if (type !== "IDAT") continue;
+      const frameData = new Uint8Array(4 + data.length);
+      new DataView(frameData.buffer).setUint32(0, sequence++);
+      frameData.set(data, 4);
+      chunks.push({ type: "fdAT", data: frameData });
+    }
+  });
+  chunks.push({ type: "IEND", data: new Uint8Array(0) });
+
+  return writePng(chunks);
+}
+
+function readChunks(png: Uint8Array): PngChunk[] {
+  if (!PNG_SIGNATURE.every((byte, i) => png[i] === byte)) {
+    throw new Error("Not a PNG image");
+  }
+
+  const view = new DataView(png.buffer, png.byteOffset, png.byteLength);
+  const decoder = new TextDecoder();
+  const chunks: PngChunk[] = [];
+  let offset = PNG_SIGNATURE.length;
+  while (offset + 8 <= png.length) {
+    const length = view.getUint32(offset);
+    const type = decoder.decode(png.subarray(offset + 4, offset + 8));
+    chunks.push({ type, data: png.subarray(offset + 8, offset + 8 + length) });
+    offset += 12 + length; // Length, type, data and CRC
+  }
+  return chunks;
+}
+
+function writePng(chunks: PngChunk[]): Uint8Array {
+  const size = chunks.reduce((sum, chunk) => sum + 12 + chunk.data.length, PNG_SIGNATURE.length);
+  const png = new Uint8Array(size);
+  const view = new DataView(png.buffer);
+  const encoder = new TextEncoder();
+
+  png.set(PNG_SIGNATURE);
+  let offset = PNG_SIGNATURE.length;
+  for (const { type, data } of chunks) {
+    view.setUint32(offset, data.length);
+    png.set(encoder.encode(type), offset + 4);
+    png.set(data, offset + 8);
+    // The CRC covers the type and the data
+    view.setUint32(offset + 8 + data.length, Bun.hash.crc32(png.subarray(offset + 4, offset + 8 + data.length)));
+    offset += 12 + data.length;
+  }
+  return png;
+}
+
+function uint32s(...values: number[]): Uint8Array {
+  const bytes = new Uint8Array(values.length * 4);
+  const view = new DataView(bytes.buffer);
+  values.forEach((value, i) => view.setUint32(i * 4, value));
+  return bytes;
+}
@@ -0,0 +1,202 @@
+// GIF export - palette-reduced, LZW-compressed frames for sites that don't play APNGs
+
+export interface GifFrame {
+  /** RGBA, 4 bytes per pixel, alpha is ignored */
+  pixels: Uint8Array;
+  width: number;
+  height: number;
+  delayMs: number;
+}
+
+const PALETTE_SIZE = 256;
+const MIN_CODE_SIZE = 8;
+const MAX_CODE = 4095; // Codes are at most 12 bits wide
+const MAX_SUB_BLOCK_SIZE = 255;
+
+/**
+ * Encode one frame: a graphic control extension with its delay, then the image with its own 256-color palette.
+ * Frames are encoded as they're rendered, so the pixels of only one frame are held at a time.
+ */
+export function encodeGifFrame({ pixels, width, height, delayMs }: GifFrame): Uint8Array {
+  const { palette, indices } = quantize(pixels);
+  const data = toSubBlocks(compress(indices));
+
+  const frame = new Uint8Array(8 + 10 + palette.length + 1 + data.length);
+  const view = new DataView(frame.buffer);
+
+  // Graphic control extension
+  frame.set([0x21, 0xf9, 0x04, 0x04]); // Disposal: leave the frame in place
+  view.setUint16(4, Math.round(delayMs / 10), true); // Hundredths of a second
+  // Transparent color index and terminator stay zero
+
+  // Image descriptor, with a local color table of 2^(7 + 1) entries
+  frame[8] = 0x2c;
+  view.setUint16(13, width, true);
+  view.setUint16(15, height, true);
+  frame[17] = 0x80 | 0x07;
+  frame.set(palette, 18);
+
+  frame[18 + palette.length] = MIN_CODE_SIZE;
+  frame.set(data, 18 + palette.length + 1);
+  return frame;
+}
+
+/** Wrap frames from encodeGifFrame() into a GIF that loops forever */
+export function createGif(width: number, height: number, frames: Uint8Array[]): Uint8Array {
+  const header = new Uint8Array(13 + 19);
+  const view = new DataView(header.buffer);
+
+  header.set(new TextEncoder().encode("GIF89a"));
+  view.setUint16(6, width, true);
+  view.setUint16(8, height, true);
+  // No global color table, every frame brings its own
+
+  // Netscape application extension, loop count zero repeats forever
+  header.set([0x21, 0xff, 0x0b, ...new TextEncoder().encode("NETSCAPE2.0"), 0x03, 0x01, 0x00, 0x00, 0x00], 13);
+
+  const size = frames.reduce((sum, frame) => sum + frame.length, header.length + 1);
+  const gif = new Uint8Array(size);
+  gif.set(header);
+  let offset = header.length;
+  for (const frame of frames) {
+    gif.set(frame, offset);
+    offset += frame.length;
+  }
+  gif[offset] = 0x3b; // Trailer
+  return gif;
+}
+
+/**
+ * Pick the 256 most common colors, after grouping colors that only differ in the lowest 3 bits of each channel,
+ * and map every pixel to the nearest of them. Cards are flat colors plus anti-aliased edges, so the common colors
+ * are the theme's and the edges come out close enough.
+ */
+function quantize(pixels: Uint8Array): { palette: Uint8Array; indices: Uint8Array } {
+  const pixelCount = pixels.length / 4;
+  const counts = new Uint32Array(1 << 15);
+  const sums = new Float64Array((1 << 15) * 3);
+
+  for (let i = 0; i < pixelCount; i++) {
+    const key = colorKey(pixels, i * 4);
+    counts[key]++;
+    sums[key * 3] += pixels[i * 4];
+    sums[key * 3 + 1] += pixels[i * 4 + 1];
+    sums[key * 3 + 2] += pixels[i * 4 + 2];
+  }
+
+  const common = Array.from(counts.keys())
+    .filter((key) => counts[key] > 0)
+    .sort((a, b) => counts[b] - counts[a])
+    .slice(0, PALETTE_SIZE);
+
+  const palette = new Uint8Array(PALETTE_SIZE * 3);
+  common.forEach((key, i) => {
+    for (let channel = 0; channel < 3; channel++) {
+      palette[i * 3 + channel] = Math.round(sums[key * 3 + channel] / counts[key]);
+    }
+  });
+
+  // Nearest palette entry per color group, looked up once per group
+  const nearest = new Int16Array(1 << 15).fill(-1);
+  const indices = new Uint8Array(pixelCount);
+  for (let i = 0; i < pixelCount; i++) {
+    const key = colorKey(pixels, i * 4);
+    if (nearest[key] === -1) {
+      nearest[key] = findNearest(palette, common.length, pixels[i * 4], pixels[i * 4 + 1], pixels[i * 4 + 2]);
+    }
+    indices[i] = nearest[key];
+  }
+
+  return { palette, indices };
+}
+
+function colorKey(pixels: Uint8Array, offset: number): number {
+  return ((pixels[offset] >> 3) << 10) | ((pixels[offset + 1] >> 3) << 5) | (pixels[offset + 2] >> 3);
+}
+
+function findNearest(palette: Uint8Array, size: number, r: number, g: number, b: number): number {
+  let best = 0;
+  let bestDistance = Infinity;
+  for (let i = 0; i < size; i++) {
+    const distance = (palette[i * 3] - r) ** 2 + (palette[i * 3 + 1] - g) ** 2 + (palette[i * 3 + 2] - b) ** 2;
+    if (distance < bestDistance) {
+      best = i;
+      bestDistance = distance;
+    }
+  }
+  return best;
+}
+
+/** Variable-width LZW, as GIF decoders expect it: codes packed least significant bit first */
+function compress(indices: Uint8Array): Uint8Array {
+  const clearCode = 1 << MIN_CODE_SIZE;
+  const endCode = clearCode + 1;
+
+  // Twelve-bit codes never take up more than two bytes per pixel
+  const output = new Uint8Array(indices.length * 2 + 16);
+  let length = 0;
+  let buffer = 0;
+  let bufferBits = 0;
+  let codeSize = MIN_CODE_SIZE + 1;
+
+  const emit = (code: number) => {
+    buffer |= code << bufferBits;
+    bufferBits += codeSize;
+    while (bufferBits >= 8) {
+      output[length++] = buffer & 0xff;
+      buffer >>>= 8;
+      bufferBits -= 8;
+    }
+  };
+
+  // prefix code << 8 | next index -> code
+  const table = new Map<number, number>();
+  let nextCode = endCode + 1;
+
+  emit(clearCode);
+  let prefix = indices[0];
+  for (let i = 1; i < indices.length; i++) {
+    const index = indices[i];
+    const key = (prefix << 8) | index;
+    const code = table.get(key);
+    if (code !== undefined) {
+      prefix = code;
+      continue;
+    }
+
+    emit(prefix);
+    if (nextCode > MAX_CODE) {
+      emit(clearCode);
+      table.clear();
+      nextCode = endCode + 1;
+      codeSize = MIN_CODE_SIZE + 1;
+    } else {
+      // The decoder widens its codes one entry later than the encoder adds them, so widen before adding
+      if (nextCode >= 1 << codeSize) codeSize++;
+      table.set(key, nextCode++);
+    }
+    prefix = index;
+  }
+  emit(prefix);
+  emit(endCode);
+  if (bufferBits > 0) {
+    output[length++] = buffer & 0xff;
+  }
+
+  return output.subarray(0, length);
+}
+
+/** Image data is split into blocks of up to 255 bytes, each prefixed with its length, ending with an empty one */
+function toSubBlocks(data: Uint8Array): Uint8Array {
+  const blockCount = Math.ceil(data.length / MAX_SUB_BLOCK_SIZE);
+  const blocks = new Uint8Array(data.length + blockCount + 1);
+  let offset = 0;
+  for (let start = 0; start < data.length; start += MAX_SUB_BLOCK_SIZE) {
+    const block = data.subarray(start, start + MAX_SUB_BLOCK_SIZE);
+    blocks[offset++] = block.length;
+    blocks.set(block, offset);
+    offset += block.length;
+  }
+  blocks[offset] = 0;
+  return blocks;
+}
@@ -0,0 +1,229 @@
+// JSON export - serializes OpenCodeStats into a stable, versioned schema
+
+import type {
+  Achievement,
+  AgentStats,
+  CodeChurn,
+  CostBreakdown,
+  DateRange,
+  HourlyActivity,
+  LanguageStats,
+  ModelPerformance,
+  ModelStats,
+  ModelTokenStats,
+  MonthlyActivity,
+  OpenCodeStats,
+  ProjectStats,
+  ProviderStats,
+  ReliabilityStats,
+  SessionTimeStats,
+  TokenBreakdown,
+  ToolStats,
+} from "../types";
+import { evaluateAchievements } from "../achievements";
+
+/**
+ * Bump on any breaking change to StatsJson (renamed/removed fields, changed units).
+ * Adding new fields is not a breaking change.
+ */
+export const STATS_SCHEMA_VERSION = 2;
+
+export interface StatsJson {
+  schemaVersion: number;
+  generator: {
+    name: "oc-wrapped";
+    version: string;
+  };
+  generatedAt: string; // ISO 8601
+
+  year: number;
+  range: DateRange;
+  project: { name: string; worktree: string } | null; // Set when scoped with --project
+  timeZone: string; // IANA name used to bucket days
+  dayStartHour: number; // Hour (0-23) a day starts at
+
+  firstSessionDate: string; // ISO 8601
+  daysSinceFirstSession: number;
+
+  totalSessions: number;
+  totalMessages: number;
+  totalProjects: number;
+
+  totalInputTokens: number;
+  totalOutputTokens: number;
+  totalTokens: number; // Since v2 includes reasoning and cache tokens
+  tokens: TokenBreakdown;
+  cacheHitRatio: number; // 0-1, cache reads / (input + cache reads)
+  tokensByModel: ModelTokenStats[];
+
+  totalCost: number; // OpenCode Zen only
+  hasZenUsage: boolean;
+  recordedCost: number; // USD, sum of costs recorded by OpenCode
+  estimatedCost: number; // USD, from models.dev pricing and token usage
+  costByModel: CostBreakdown[];
+  costByProvider: CostBreakdown[];
+
+  topModels: ModelStats[];
+  topProviders: ProviderStats[];
+  providersUsed: number;
+  agents: AgentStats[]; // Sorted by messages
+  modes: AgentStats[]; // Sorted by messages
+  topCustomAgent: AgentStats | null;
+  modelPerformance: ModelPerformance[]; // Latencies in ms, sorted by messages
+  fastestModel: ModelPerformance | null;
+  projects: ProjectStats[]; // Sorted by messages
+
+  reliability: ReliabilityStats; // Finish reasons of assistant messages, rates are 0-1
+  reliabilityByModel: ReliabilityStats[];
+  reliabilityByProvider: ReliabilityStats[];
+
+  tools: ToolStats[]; // From tool parts, failureRate is 0-1
+  languages: LanguageStats[]; // From completed edit/write tool calls
+
+  sessionTime: SessionTimeStats; // Durations in milliseconds
+
+  codeChurn: CodeChurn; // From session summaries
+  churnByYear: Record<string, CodeChurn>; // Sorted, "YYYY" -> churn
+  dailyChurn: Record<string, CodeChurn>; // Sorted, "YYYY-MM-DD" -> churn
+  biggestSession: {
+    id: string;
+    title: string;
+    project: string;
+    date: string;
+    churn: CodeChurn;
+  } | null;
+
+  maxStreak: number;
+  currentStreak: number;
+  maxStreakDays: string[]; // Sorted "YYYY-MM-DD"
+
+  dailyActivity: Record<string, number>; // Sorted by date, "YYYY-MM-DD" -> count
+  monthlyActivity: MonthlyActivity[]; // Every month of the range up to today, oldest first
+
+  mostActiveDay: {
+    date: string;
+    count: number;
+    formattedDate: string;
+  } | null;
+
+  weekdayActivity: {
+    counts: number[]; // 0=Sunday, 6=Saturday
+    mostActiveDay: number;
+    mostActiveDayName: string;
+    maxCount: number;
+  };
+
+  hourlyActivity: HourlyActivity;
+
+  achievements: Achievement[]; // Highest tier earned per rule, gold first
+}
+
+export function serializeStats(stats: OpenCodeStats, version: string): StatsJson {
+  return {
+    schemaVersion: STATS_SCHEMA_VERSION,
+    generator: {
+      name: "oc-wrapped",
+      version,
+    },
+    generatedAt: new Date().toISOString(),
+
+    year: stats.year,
+    range: { ...stats.range },
+    project: stats.project ? { ...stats.project } : null,
+    timeZone: stats.dayBoundary.timeZone,
+    dayStartHour: stats.dayBoundary.dayStartHour,
+
+    firstSessionDate: stats.firstSessionDate.toISOString(),
+    daysSinceFirstSession: stats.daysSinceFirstSession,
+
+    totalSessions: stats.totalSessions,
+    totalMessages: stats.totalMessages,
+    totalProjects: stats.totalProjects,
+
+    totalInputTokens: stats.totalInputTokens,
+    totalOutputTokens: stats.totalOutputTokens,
+    totalTokens: stats.totalTokens,
+    tokens: { ...stats.tokens },
+    cacheHitRatio: stats.cacheHitRatio,
+    tokensByModel: stats.tokensByModel.map((m) => ({ ...m, tokens: { ...m.tokens } })),
+
+    totalCost: stats.totalCost,
+    hasZenUsage: stats.hasZenUsage,
+    recordedCost: stats.recordedCost,
+    estimatedCost: stats.estimatedCost,
+    costByModel: stats.costByModel.map((c) => ({ ...c })),
+    costByProvider: stats.costByProvider.map((c) => ({ ...c })),
+
+    topModels: stats.topModels.map((m) => ({ ...m })),
+    topProviders: stats.topProviders.map((p) => ({ ...p })),
+    providersUsed: stats.providersUsed,
+    agents: stats.agents.map((a) => ({ ...a })),
+    modes: stats.modes.map((m) => ({ ...m })),
+    topCustomAgent: stats.topCustomAgent ? { ...stats.topCustomAgent } : null,
+    modelPerformance: stats.modelPerformance.map(copyModelPerformance),
+    fastestModel: stats.fastestModel && copyModelPerformance(stats.fastestModel),
+    projects: stats.projects.map((p) => ({ ...p, churn: { ...p.churn } })),
+
+    reliability: copyReliability(stats.reliability),
+    reliabilityByModel: stats.reliabilityByModel.map(copyReliability),
+    reliabilityByProvider: stats.reliabilityByProvider.map(copyReliability),
+
+    tools: stats.tools.map((t) => ({ ...t })),
+    languages: stats.languages.map((l) => ({ ...l, extensions: [...l.extensions] })),
+
+    sessionTime: {
+      ...stats.sessionTime,
+      longestSession: stats.sessionTime.longestSession ? { ...stats.sessionTime.longestSession } : null,
+    },
+
+    codeChurn: { ...stats.codeChurn },
+    churnByYear: sortedRecord(stats.churnByYear, (c) => ({ ...c })),
+    dailyChurn: sortedRecord(stats.dailyChurn, (c) => ({ ...c })),
+    biggestSession: stats.biggestSession ? { ...stats.biggestSession, churn: { ...stats.biggestSession.churn } } : null,
+
+    maxStreak: stats.maxStreak,
+    currentStreak: stats.currentStreak,
+    maxStreakDays: Array.from(stats.maxStreakDays).sort(),
+
+    dailyActivity: sortedRecord(stats.dailyActivity, (count) => count),
+    monthlyActivity: stats.monthlyActivity.map((m) => ({ ...m })),
+
+    mostActiveDay: stats.mostActiveDay ? { ...stats.mostActiveDay } : null,
+
+    weekdayActivity: {
+      counts: [...stats.weekdayActivity.counts],
+      mostActiveDay: stats.weekdayActivity.mostActiveDay,
+      mostActiveDayName: stats.weekdayActivity.mostActiveDayName,
+      maxCount: stats.weekdayActivity.maxCount,
+    },
+
+    hourlyActivity: {
+      ...stats.hourlyActivity,
+      counts: [...stats.hourlyActivity.counts],
+      weekdayHourCounts: stats.hourlyActivity.weekdayHourCounts.map((hours) => [...hours]),
+    },
+
+    achievements: evaluateAchievements(stats),
+  };
+}
+
+function copyModelPerformance(model: ModelPerformance): ModelPerformance {
+  return { ...model, latency: { ...model.latency } };
+}
+
+function copyReliability(reliability: ReliabilityStats): ReliabilityStats {
+  return { ...reliability, finishReasons: { ...reliability.finishReasons } };
+}
+
+/** Map keyed by date-like strings to a plain object with sorted keys */
+function sortedRecord<T, U>(map: Map<string, T>, copy: (value: T) => U): Record<string, U> {
+  return Object.fromEntries(
+    Array.from(map.entries())
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([key, value]) => [key, copy(value)])
+  );
+}
+
+export function formatStatsJson(stats: OpenCodeStats, version: string): string {
+  return JSON.stringify(serializeStats(stats, version), null, 2) + "\n";
+}
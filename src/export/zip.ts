@@ -0,0 +1,82 @@
+// Zip export - bundles the slide PNGs into one archive
+
+export interface ZipEntry {
+  name: string;
+  data: Uint8Array;
+}
+
+const LOCAL_HEADER_SIZE = 30;
+const CENTRAL_HEADER_SIZE = 46;
+const END_OF_CENTRAL_DIRECTORY_SIZE = 22;
+
+/**
+ * Build a zip archive. Entries are stored uncompressed, PNGs are compressed already
+ * and deflating them again only costs time.
+ */
+export function createZip(entries: ZipEntry[], modified = new Date()): Uint8Array {
+  const encoder = new TextEncoder();
+  const { time, date } = toDosDateTime(modified);
+
+  const files = entries.map((entry) => ({ ...entry, name: encoder.encode(entry.name), crc: Bun.hash.crc32(entry.data) }));
+  const localSize = files.reduce((sum, f) => sum + LOCAL_HEADER_SIZE + f.name.length + f.data.length, 0);
+  const centralSize = files.reduce((sum, f) => sum + CENTRAL_HEADER_SIZE + f.name.length, 0);
+
+  const zip = new Uint8Array(localSize + centralSize + END_OF_CENTRAL_DIRECTORY_SIZE);
+  const view = new DataView(zip.buffer);
+
+  let offset = 0;
+  const localOffsets: number[] = [];
+  for (const file of files) {
+    localOffsets.push(offset);
+    view.setUint32(offset, 0x04034b50, true); // Local file header signature
+    view.setUint16(offset + 4, 20, true); // Version needed to extract (2.0)
+    view.setUint16(offset + 6, 0x0800, true); // UTF-8 file names
+    view.setUint16(offset + 8, 0, true); // Stored
+    view.setUint16(offset + 10, time, true);
+    view.setUint16(offset + 12, date, true);
+    view.setUint32(offset + 14, file.crc, true);
+    view.setUint32(offset + 18, file.data.length, true); // Compressed size
+    view.setUint32(offset + 22, file.data.length, true); // Uncompressed size
+    view.setUint16(offset + 26, file.name.length, true);
+    view.setUint16(offset + 28, 0, true); // Extra field length
+    zip.set(file.name, offset + LOCAL_HEADER_SIZE);
+    zip.set(file.data, offset + LOCAL_HEADER_SIZE + file.name.length);
+    offset += LOCAL_HEADER_SIZE + file.name.length + file.data.length;
+  }
+
+  const centralOffset = offset;
+  files.forEach((file, i) => {
+    view.setUint32(offset, 0x02014b50, true); // Central directory header signature
+    view.setUint16(offset + 4, 20, true); // Version made by
+    view.setUint16(offset + 6, 20, true); // Version needed to extract
+    view.setUint16(offset + 8, 0x0800, true);
+    view.setUint16(offset + 10, 0, true);
+    view.setUint16(offset + 12, time, true);
+    view.setUint16(offset + 14, date, true);
+    view.setUint32(offset + 16, file.crc, true);
+    view.setUint32(offset + 20, file.data.length, true);
+    view.setUint32(offset + 24, file.data.length, true);
+    view.setUint16(offset + 28, file.name.length, true);
+    // Extra field, comment, disk number, internal and external attributes stay zero
+    view.setUint32(offset + 42, localOffsets[i], true);
+    zip.set(file.name, offset + CENTRAL_HEADER_SIZE);
+    offset += CENTRAL_HEADER_SIZE + file.name.length;
+  });
+
+  view.setUint32(offset, 0x06054b50, true); // End of central directory signature
+  view.setUint16(offset + 8, files.length, true); // Entries on this disk
+  view.setUint16(offset + 10, files.length, true); // Total entries
+  view.setUint32(offset + 12, centralSize, true);
+  view.setUint32(offset + 16, centralOffset, true);
+
+  return zip;
+}
+
+/** Zip timestamps are MS-DOS local time with two-second precision, from 1980 */
+function toDosDateTime(date: Date): { time: number; date: number } {
+  const year = Math.max(date.getFullYear(), 1980);
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((year - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  };
+}
@@ -0,0 +1,76 @@
+// Animated card - the heatmap fills in day by day while the counters tick up to their totals
+
+import type { OpenCodeStats } from "../types";
+import { addDays, generateWeeksForRange } from "../utils/dates";
+
+export type AnimationFormat = "apng" | "gif";
+
+export interface AnimationFrame {
+  stats: OpenCodeStats;
+  /** How long the frame stays on screen */
+  delayMs: number;
+}
+
+/** Frames while filling in, the last one shows the real totals */
+export const ANIMATION_FRAME_COUNT = 24;
+const FRAME_DELAY_MS = 80;
+/** Linger on the finished card before the loop starts over */
+const FINAL_FRAME_DELAY_MS = 4000;
+
+/** Output files ending in .gif get a GIF, anything else an APNG */
+export function getAnimationFormat(path: string): AnimationFormat {
+  return path.toLowerCase().endsWith(".gif") ? "gif" : "apng";
+}
+
+export function getAnimationFrames(stats: OpenCodeStats): AnimationFrame[] {
+  return Array.from({ length: ANIMATION_FRAME_COUNT }, (_, i) => {
+    const progress = (i + 1) / ANIMATION_FRAME_COUNT;
+    const isLast = i === ANIMATION_FRAME_COUNT - 1;
+    return {
+      stats: isLast ? stats : getFrameStats(stats, progress),
+      delayMs: isLast ? FINAL_FRAME_DELAY_MS : FRAME_DELAY_MS,
+    };
+  });
+}
+
+/** Busiest day of the whole range, so the heatmap colors stay put while days are added */
+export function getHeatmapMaxCount(stats: OpenCodeStats): number {
+  const counts = Array.from(stats.dailyActivity.values());
+  return counts.length > 0 ? Math.max(...counts) : 0;
+}
+
+/**
+ * Stats partway through the animation. Days fill in at a steady pace, from the first heatmap cell to the last,
+ * while the counters ease out so they slow down as they reach their totals. Charts other than the heatmap
+ * already show their final shape.
+ */
+function getFrameStats(stats: OpenCodeStats, progress: number): OpenCodeStats {
+  const dayCount = generateWeeksForRange(stats.range, stats.dayBoundary).flat().filter(Boolean).length;
+  const lastDay = addDays(stats.range.from, Math.floor(dayCount * progress) - 1);
+  const shown = (day: string) => day <= lastDay;
+
+  const eased = 1 - (1 - progress) ** 3;
+  // Rounding up keeps non-zero counters non-zero, boxes for them would pop in otherwise
+  const count = (value: number) => Math.ceil(value * eased);
+  const amount = (value: number) => value * eased;
+
+  return {
+    ...stats,
+    dailyActivity: new Map(Array.from(stats.dailyActivity).filter(([day]) => shown(day))),
+    maxStreakDays: new Set(Array.from(stats.maxStreakDays).filter(shown)),
+    totalSessions: count(stats.totalSessions),
+    totalMessages: count(stats.totalMessages),
+    totalProjects: count(stats.totalProjects),
+    totalTokens: count(stats.totalTokens),
+    maxStreak: count(stats.maxStreak),
+    totalCost: amount(stats.totalCost),
+    recordedCost: amount(stats.recordedCost),
+    estimatedCost: amount(stats.estimatedCost),
+    codeChurn: {
+      additions: count(stats.codeChurn.additions),
+      deletions: count(stats.codeChurn.deletions),
+      files: count(stats.codeChurn.files),
+    },
+    sessionTime: { ...stats.sessionTime, activeTime: amount(stats.sessionTime.activeTime) },
+  };
+}
@@ -9,11 +9,75 @@
 // COLOR PALETTE
 // =============================================================================
 
+export interface ThemeColors {
+  // Backgrounds
+  background: string;
+  surface: string; // Elevated surface for cards
+  surfaceHover: string;
+  surfaceBorder: string;
+
+  // Text hierarchy
+  text: {
+    primary: string;
+    secondary: string;
+    tertiary: string; // Labels and captions
+    muted: string; // Footer/subtle text
+    disabled: string;
+  };
+
+  accent: {
+    primary: string;
+    primaryHover: string;
+    secondary: string;
+    tertiary: string;
+  };
+
+  semantic: {
+    success: string;
+    warning: string;
+    error: string;
+    info: string;
+  };
+
+  // Heatmap intensity, from no activity to very high
+  heatmap: HeatmapPalette;
+
+  // Streak days, same levels tinted with the accent
+  streak: HeatmapPalette;
+
+  // Token breakdown segments
+  tokens: {
+    input: string;
+    output: string;
+    reasoning: string;
+    cacheRead: string;
+    cacheWrite: string;
+  };
+
+  // Achievement tiers
+  tiers: {
+    bronze: string;
+    silver: string;
+    gold: string;
+  };
+}
+
+export interface HeatmapPalette {
+  empty: string;
+  level1: string;
+  level2: string;
+  level3: string;
+  level4: string;
+  level5: string;
+  level6: string;
+  level7: string;
+}
+
 /**
- * Core color palette - dark theme with carefully calibrated contrast ratios
+ * Default dark palette - carefully calibrated contrast ratios
  * All text colors meet WCAG AA standards (4.5:1 minimum contrast)
  */
-export const colors = {
+const darkColors: ThemeColors = {
   // Backgrounds
   background: "#0A0A0A", // True black for OLED-friendly display
   surface: "#161616", // Elevated surface for cards
@@ -68,7 +132,199 @@ export const colors = {
     level6: "#56B356", // High
     level7: "#6CC644", // Max (accent green)
   },
-} as const;
+
+  // Token breakdown segments
+  tokens: {
+    input: "#3B82F6", // Blue
+    output: "#6CC644", // Accent green
+    reasoning: "#F59E0B", // Amber
+    cacheRead: "#9E9E9E", // Light gray
+    cacheWrite: "#5C5C5C", // Dark gray
+  },
+
+  // Achievement tiers
+  tiers: {
+    bronze: "#CD7F32",
+    silver: "#C0C0C0",
+    gold: "#F5C542",
+  },
+};
+
+/**
+ * Light palette for feeds with white backgrounds (LinkedIn, docs)
+ * Text contrast ratios against #FFFFFF
+ */
+const lightColors: ThemeColors = {
+  background: "#FFFFFF",
+  surface: "#F4F4F5",
+  surfaceHover: "#EBEBED",
+  surfaceBorder: "#E4E4E7",
+
+  text: {
+    primary: "#0A0A0A", // 19.8:1
+    secondary: "#262626", // 15.1:1
+    tertiary: "#525252", // 7.8:1
+    muted: "#6B6B6B", // 5.3:1
+    disabled: "#A3A3A3",
+  },
+
+  accent: {
+    primary: "#3F9A1E", // Darker OpenCode green, readable on white
+    primaryHover: "#4DAF28",
+    secondary: "#2563EB",
+    tertiary: "#D97706",
+  },
+
+  semantic: {
+    success: "#16A34A",
+    warning: "#D97706",
+    error: "#DC2626",
+    info: "#2563EB",
+  },
+
+  heatmap: {
+    empty: "#EDEDED",
+    level1: "#D9D9D9",
+    level2: "#BFBFBF",
+    level3: "#A3A3A3",
+    level4: "#808080",
+    level5: "#5C5C5C",
+    level6: "#3D3D3D",
+    level7: "#1A1A1A",
+  },
+
+  streak: {
+    empty: "#E6F4DF",
+    level1: "#CDEABF",
+    level2: "#B0DD9B",
+    level3: "#8ECD72",
+    level4: "#6CBD4A",
+    level5: "#55AC32",
+    level6: "#47A226",
+    level7: "#3F9A1E",
+  },
+
+  tokens: {
+    input: "#2563EB",
+    output: "#3F9A1E",
+    reasoning: "#D97706",
+    cacheRead: "#A3A3A3",
+    cacheWrite: "#D4D4D4",
+  },
+
+  tiers: {
+    bronze: "#A8621F",
+    silver: "#7C7C85",
+    gold: "#B8860B",
+  },
+};
+
+/**
+ * Maximum contrast: pure black and white with saturated accents
+ */
+const highContrastColors: ThemeColors = {
+  background: "#000000",
+  surface: "#1A1A1A",
+  surfaceHover: "#262626",
+  surfaceBorder: "#FFFFFF",
+
+  text: {
+    primary: "#FFFFFF",
+    secondary: "#FFFFFF",
+    tertiary: "#E0E0E0",
+    muted: "#C8C8C8",
+    disabled: "#8A8A8A",
+  },
+
+  accent: {
+    primary: "#FFD600",
+    primaryHover: "#FFE34D",
+    secondary: "#00B7FF",
+    tertiary: "#FF8A00",
+  },
+
+  semantic: {
+    success: "#00E676",
+    warning: "#FFD600",
+    error: "#FF5252",
+    info: "#00B7FF",
+  },
+
+  heatmap: {
+    empty: "#1F1F1F",
+    level1: "#3D3D3D",
+    level2: "#5C5C5C",
+    level3: "#7A7A7A",
+    level4: "#999999",
+    level5: "#B8B8B8",
+    level6: "#D6D6D6",
+    level7: "#FFFFFF",
+  },
+
+  streak: {
+    empty: "#332B00",
+    level1: "#4D4000",
+    level2: "#665500",
+    level3: "#806B00",
+    level4: "#B39500",
+    level5: "#CCAA00",
+    level6: "#E6C000",
+    level7: "#FFD600",
+  },
+
+  tokens: {
+    input: "#00B7FF",
+    output: "#00E676",
+    reasoning: "#FF8A00",
+    cacheRead: "#D6D6D6",
+    cacheWrite: "#7A7A7A",
+  },
+
+  tiers: {
+    bronze: "#FF9F43",
+    silver: "#FFFFFF",
+    gold: "#FFD600",
+  },
+};
+
+/** The dark palette with another accent; streak days and output tokens follow the accent */
+function withAccent(base: ThemeColors, primary: string, primaryHover: string): ThemeColors {
+  return {
+    ...base,
+    accent: { ...base.accent, primary, primaryHover },
+    streak: accentRamp(base.background, primary),
+    tokens: { ...base.tokens, output: primary },
+  };
+}
+
+/** Streak levels blended from the background toward the accent */
+function accentRamp(background: string, accent: string): HeatmapPalette {
+  const [empty, level1, level2, level3, level4, level5, level6] = [0.1, 0.18, 0.28, 0.42, 0.62, 0.75, 0.88].map(
+    (amount) => mixColors(background, accent, amount)
+  );
+  return { empty, level1, level2, level3, level4, level5, level6, level7: accent };
+}
+
+function mixColors(from: string, to: string, amount: number): string {
+  const [a, b] = [from, to].map((hex) => [1, 3, 5].map((i) => parseInt(hex.slice(i, i + 2), 16)));
+  return `#${a
+    .map((channel, i) => Math.round(channel + (b[i] - channel) * amount).toString(16).padStart(2, "0"))
+    .join("")
+    .toUpperCase()}`;
+}
+
+export const themes = {
+  dark: darkColors,
+  light: lightColors,
+  "high-contrast": highContrastColors,
+  ocean: withAccent(darkColors, "#38BDF8", "#5CCBFA"),
+  grape: withAccent(darkColors, "#A78BFA", "#B9A2FB"),
+  sunset: withAccent(darkColors, "#FB923C", "#FCA663"),
+} satisfies Record<string, ThemeColors>;
+
+export type ThemeName = keyof typeof themes;
+
+export const DEFAULT_THEME: ThemeName = "dark";
 
 // =============================================================================
 // TYPOGRAPHY
@@ -78,7 +334,7 @@ export const colors = {
  * Typography scale following a 1.25 (Major Third) ratio
  * Base size: 16px
  */
-export const typography = {
+const defaultTypography = {
   // Font family
   fontFamily: {
     mono: "IBM Plex Mono",
@@ -126,7 +382,9 @@ export const typography = {
     wider: 2,
     widest: 4,
   },
-} as const;
+};
+
+export type Typography = typeof defaultTypography;
 
 // =============================================================================
 // SPACING (8px Grid System)
@@ -136,7 +394,7 @@ export const typography = {
  * Spacing scale based on 8px grid
  * All spacing values are multiples of 8 for consistent rhythm
  */
-export const spacing = {
+const defaultSpacing = {
   0: 0,
   1: 4, // 0.5x - Fine adjustments
   2: 8, // 1x - Base unit
@@ -151,7 +409,9 @@ export const spacing = {
   16: 64, // 8x - Large spacing
   20: 80, // 10x - Section spacing
   24: 96, // 12x - Major section spacing
-} as const;
+};
+
+export type Spacing = typeof defaultSpacing;
 
 // =============================================================================
 // LAYOUT
@@ -164,7 +424,7 @@ export const layout = {
   // Canvas dimensions
   canvas: {
     width: 1500,
-    height: 1700,
+    height: 2960,
   },
 
   // Container padding
@@ -199,67 +459,94 @@ export const layout = {
   },
 } as const;
 
+/**
+ * Canvas presets for --size. `card` is the full-length card, the others reflow a subset of its sections
+ * to fit where they're shared instead of scaling it down.
+ */
+export const canvasSizes = {
+  card: layout.canvas,
+  story: { width: 1080, height: 1920 }, // Instagram and TikTok stories
+  square: { width: 1080, height: 1080 }, // Feed posts
+  og: { width: 1200, height: 630 }, // Open Graph link previews
+  banner: { width: 1500, height: 500 }, // X header
+} as const;
+
+export type CanvasSize = keyof typeof canvasSizes;
+
+export const DEFAULT_CANVAS_SIZE: CanvasSize = "card";
+
+export function isCanvasSize(name: string): name is CanvasSize {
+  return Object.hasOwn(canvasSizes, name);
+}
+
 // =============================================================================
 // COMPONENT TOKENS
 // =============================================================================
 
+/**
+ * Heatmap cell sizes, the same in every theme
+ */
+export const heatmapCell = {
+  size: 23.4,
+  gap: 3,
+  borderRadius: layout.radius.sm,
+} as const;
+
 /**
  * Pre-defined component styles for consistency
  */
-export const components = {
-  // Stat box styling
-  statBox: {
-    background: colors.surface,
-    borderRadius: layout.radius.lg,
-    padding: {
-      x: 32,
-      y: 24,
+export function getComponentStyles({ colors, typography, spacing }: Theme) {
+  return {
+    // Stat box styling
+    statBox: {
+      background: colors.surface,
+      borderRadius: layout.radius.lg,
+      padding: {
+        x: 32,
+        y: 24,
+      },
+      gap: 8,
     },
-    gap: 8,
-  },
 
-  // Card styling
-  card: {
-    background: colors.surface,
-    borderRadius: layout.radius.lg,
-    borderColor: colors.surfaceBorder,
-    padding: spacing[6],
-  },
+    // Card styling
+    card: {
+      background: colors.surface,
+      borderRadius: layout.radius.lg,
+      borderColor: colors.surfaceBorder,
+      padding: spacing[6],
+    },
 
-  // Section header styling
-  sectionHeader: {
-    fontSize: typography.size.lg,
-    fontWeight: typography.weight.medium,
-    color: colors.text.tertiary,
-    letterSpacing: typography.letterSpacing.wider,
-    textTransform: "uppercase" as const,
-  },
+    // Section header styling
+    sectionHeader: {
+      fontSize: typography.size.lg,
+      fontWeight: typography.weight.medium,
+      color: colors.text.tertiary,
+      letterSpacing: typography.letterSpacing.wider,
+      textTransform: "uppercase" as const,
+    },
 
-  // Heatmap cell
-  heatmapCell: {
-    size: 23.4,
-    gap: 3,
-    borderRadius: layout.radius.sm,
-  },
+    // Heatmap cell
+    heatmapCell,
 
-  // Legend
-  legend: {
-    fontSize: typography.size.xs,
-    color: colors.text.muted,
-    cellSize: 14,
-    gap: 6,
-  },
+    // Legend
+    legend: {
+      fontSize: typography.size.xs,
+      color: colors.text.muted,
+      cellSize: 14,
+      gap: 6,
+    },
 
-  // Rankings list
-  ranking: {
-    numberWidth: 48,
-    numberSize: typography.size.xl,
-    itemSize: typography.size.lg,
-    gap: spacing[4],
-    logoSize: 32,
-    logoBorderRadius: layout.radius.md,
-  },
-} as const;
+    // Rankings list
+    ranking: {
+      numberWidth: 48,
+      numberSize: typography.size.xl,
+      itemSize: typography.size.lg,
+      gap: spacing[4],
+      logoSize: 32,
+      logoBorderRadius: layout.radius.md,
+    },
+  } as const;
+}
 
 // =============================================================================
 // HEATMAP COLOR MAPS
@@ -268,28 +555,51 @@ export const components = {
 /**
  * Heatmap intensity colors for activity visualization (7 levels: 0-6)
  */
-export const HEATMAP_COLORS = {
-  0: colors.heatmap.empty,
-  1: colors.heatmap.level1,
-  2: colors.heatmap.level2,
-  3: colors.heatmap.level3,
-  4: colors.heatmap.level4,
-  5: colors.heatmap.level5,
-  6: colors.heatmap.level6,
-} as const;
+export function getHeatmapColors(colors: ThemeColors) {
+  return {
+    0: colors.heatmap.empty,
+    1: colors.heatmap.level1,
+    2: colors.heatmap.level2,
+    3: colors.heatmap.level3,
+    4: colors.heatmap.level4,
+    5: colors.heatmap.level5,
+    6: colors.heatmap.level6,
+  } as const;
+}
 
 /**
- * Streak day colors with green accent (7 levels: 0-6)
+ * Streak day colors with accent (7 levels: 0-6)
  */
-export const STREAK_COLORS = {
-  0: colors.streak.empty,
-  1: colors.streak.level1,
-  2: colors.streak.level2,
-  3: colors.streak.level3,
-  4: colors.streak.level4,
-  5: colors.streak.level5,
-  6: colors.streak.level7, // Use max green for streak visibility
-} as const;
+export function getStreakColors(colors: ThemeColors) {
+  return {
+    0: colors.streak.empty,
+    1: colors.streak.level1,
+    2: colors.streak.level2,
+    3: colors.streak.level3,
+    4: colors.streak.level4,
+    5: colors.streak.level5,
+    6: colors.streak.level7, // Use max accent for streak visibility
+  } as const;
+}
+
+// =============================================================================
+// THEMES
+// =============================================================================
+
+/** Everything a theme can change; layout and component sizes stay fixed */
+export interface Theme {
+  colors: ThemeColors;
+  typography: Typography;
+  spacing: Spacing;
+}
+
+export function isThemeName(name: string): name is ThemeName {
+  return Object.hasOwn(themes, name);
+}
+
+export function getBuiltInTheme(name: ThemeName): Theme {
+  return { colors: themes[name], typography: defaultTypography, spacing: defaultSpacing };
+}
 
 // =============================================================================
 // UTILITY FUNCTIONS
@@ -298,15 +608,15 @@ export const STREAK_COLORS = {
 /**
  * Get spacing value with optional multiplier
  */
-export function space(key: keyof typeof spacing): number {
-  return spacing[key];
+export function space(theme: Theme, key: keyof Spacing): number {
+  return theme.spacing[key];
 }
 
 /**
  * Get font size from scale
  */
-export function fontSize(key: keyof typeof typography.size): number {
-  return typography.size[key];
+export function fontSize(theme: Theme, key: keyof Typography["size"]): number {
+  return theme.typography.size[key];
 }
 
 /**
@@ -1,10 +1,13 @@
 import satori from "satori";
 import { Resvg, initWasm } from "@resvg/resvg-wasm";
 import resvgWasm from "@resvg/resvg-wasm/index_bg.wasm";
-import { WrappedTemplate } from "./template";
+import { WrappedTemplate, getCanvasSize, type TemplateOptions } from "./template";
+import { SLIDES, SLIDE_SIZE, SlideFrame } from "./slides";
+import { getAnimationFrames, getHeatmapMaxCount, type AnimationFormat } from "./animation";
+import { createApng } from "../export/apng";
+import { createGif, encodeGifFrame } from "../export/gif";
 import type { OpenCodeStats } from "../types";
 import { loadFonts } from "./fonts";
-import { layout } from "./design-tokens";
 
 export interface GeneratedImage {
   /** Full resolution PNG buffer for saving/clipboard */
@@ -13,24 +16,95 @@ export interface GeneratedImage {
   displaySize: Buffer;
 }
 
-export async function generateImage(stats: OpenCodeStats): Promise<GeneratedImage> {
-  await initWasm(Bun.file(resvgWasm).arrayBuffer());
+export interface GeneratedSlide extends GeneratedImage {
+  /** File name for the slide, numbered in carousel order, e.g. 02-tokens.png */
+  filename: string;
+}
+
+export async function generateImage(stats: OpenCodeStats, options: TemplateOptions = {}): Promise<GeneratedImage> {
+  return renderPng(<WrappedTemplate stats={stats} options={options} />, getCanvasSize(options));
+}
+
+/** Render every slide of the carousel, one after the other */
+export async function generateSlides(stats: OpenCodeStats, options: TemplateOptions = {}): Promise<GeneratedSlide[]> {
+  const slides: GeneratedSlide[] = [];
+  for (const [index, slide] of SLIDES.entries()) {
+    const image = await renderPng(<SlideFrame slide={slide} index={index} stats={stats} options={options} />, SLIDE_SIZE);
+    slides.push({ ...image, filename: `${String(index + 1).padStart(2, "0")}-${slide.id}.png` });
+  }
+  return slides;
+}
+
+export interface GeneratedAnimation {
+  /** The animated APNG or GIF */
+  animation: Uint8Array;
+  /** Last frame at terminal size, the animation can't be shown there */
+  displaySize: Buffer;
+}
+
+/**
+ * Render the card frame by frame while the heatmap fills in and the counters tick up, then encode the frames.
+ * Frames are rendered one after the other and only the encoded ones are kept, a full card is some 18 MB of pixels.
+ */
+export async function generateAnimation(
+  stats: OpenCodeStats,
+  options: TemplateOptions = {},
+  format: AnimationFormat = "apng",
+  onFrame?: (frame: number, frameCount: number) => void,
+): Promise<GeneratedAnimation> {
+  const size = getCanvasSize(options);
+  const frames = getAnimationFrames(stats);
+  const frameOptions = { ...options, heatmapMaxCount: getHeatmapMaxCount(stats) };
+
+  const encoded: Uint8Array[] = [];
+  let svg = "";
+  for (const [i, frame] of frames.entries()) {
+    onFrame?.(i + 1, frames.length);
+    svg = await renderSvg(<WrappedTemplate stats={frame.stats} options={frameOptions} />, size);
 
-  const svg = await satori(<WrappedTemplate stats={stats} />, {
-    width: layout.canvas.width,
-    height: layout.canvas.height,
+    const resvg = new Resvg(svg);
+    const image = resvg.render();
+    encoded.push(
+      format === "gif"
+        ? encodeGifFrame({ pixels: image.pixels, width: image.width, height: image.height, delayMs: frame.delayMs })
+        : image.asPng(),
+    );
+    // Frames add up, don't leave their pixels to the garbage collector
+    image.free();
+    resvg.free();
+  }
+
+  const animation =
+    format === "gif"
+      ? createGif(size.width, size.height, encoded)
+      : createApng(encoded.map((png, i) => ({ png, delayMs: frames[i].delayMs })));
+  return { animation, displaySize: rasterize(svg, 0.75) };
+}
+
+let wasmReady: Promise<void> | undefined;
+
+async function renderSvg(element: React.ReactNode, size: { width: number; height: number }): Promise<string> {
+  // initWasm throws when called twice, and slides and animations render several images
+  wasmReady ??= initWasm(Bun.file(resvgWasm).arrayBuffer());
+  await wasmReady;
+
+  return satori(element, {
+    ...size,
     fonts: await loadFonts(),
   });
+}
 
-  const [fullSize, displaySize] = [1, 0.75].map((v) => {
-    const resvg = new Resvg(svg, {
-      fitTo: {
-        mode: "zoom",
-        value: v,
-      },
-    });
-    return Buffer.from(resvg.render().asPng());
-  });
+async function renderPng(element: React.ReactNode, size: { width: number; height: number }): Promise<GeneratedImage> {
+  const svg = await renderSvg(element, size);
+  return { fullSize: rasterize(svg, 1), displaySize: rasterize(svg, 0.75) };
+}
 
-  return { fullSize, displaySize };
+function rasterize(svg: string, zoom: number): Buffer {
+  const resvg = new Resvg(svg, {
+    fitTo: {
+      mode: "zoom",
+      value: zoom,
+    },
+  });
+  return Buffer.from(resvg.render().asPng());
 }
@@ -1,33 +1,59 @@
-import { generateWeeksForYear, getIntensityLevel } from "../utils/dates";
-import { colors, typography, spacing, components, HEATMAP_COLORS, STREAK_COLORS } from "./design-tokens";
+import type { DateRange, DayBoundary } from "../types";
+import { generateWeeksForRange, getIntensityLevel, getMonthsForRange } from "../utils/dates";
+import { layout, heatmapCell, getComponentStyles, getHeatmapColors, getStreakColors, type Theme } from "./design-tokens";
 
 interface HeatmapProps {
   dailyActivity: Map<string, number>;
-  year: number;
+  range: DateRange;
+  /** Days after today in this boundary are left out */
+  dayBoundary: DayBoundary;
   maxStreakDays?: Set<string>;
+  /** Space available for the grid, defaults to the card's content width */
+  width?: number;
+  /** Count that gets the darkest color, defaults to the busiest day shown */
+  maxCount?: number;
+  theme: Theme;
 }
 
-interface MonthLabel {
-  month: number;
+type IntensityLevel = keyof ReturnType<typeof getHeatmapColors>;
+
+interface AxisLabel {
+  text: string;
   x: number;
 }
 
 const MONTHS = ["Jan", "Feb", "Mar", "Apr", "May", "Jun", "Jul", "Aug", "Sep", "Oct", "Nov", "Dec"];
 
-const CELL_SIZE = components.heatmapCell.size;
-const CELL_GAP = components.heatmapCell.gap;
-const CELL_RADIUS = components.heatmapCell.borderRadius;
+const CELL_SIZE = heatmapCell.size;
+const CELL_GAP = heatmapCell.gap;
+const CELL_RADIUS = heatmapCell.borderRadius;
+
+/** Below this, day cells are unreadable and long ranges switch to month columns */
+const MIN_CELL_SIZE = 8;
+/** Labels closer than this to the previous one are skipped so they don't overlap */
+const MIN_LABEL_SPACING = 48;
+/** Month columns are as tall as a full-size day grid, so the card layout doesn't change */
+const GRID_HEIGHT = 7 * CELL_SIZE + 6 * CELL_GAP;
 
-const LEGEND_CELL_SIZE = components.legend.cellSize;
-const LEGEND_GAP = components.legend.gap;
+const HEATMAP_WIDTH = layout.canvas.width - layout.padding.horizontal * 2;
 
-export function ActivityHeatmap({ dailyActivity, year, maxStreakDays }: HeatmapProps) {
-  const weeks = generateWeeksForYear(year);
+export function ActivityHeatmap({
+  dailyActivity,
+  range,
+  dayBoundary,
+  maxStreakDays,
+  width = HEATMAP_WIDTH,
+  maxCount: fixedMaxCount,
+  theme,
+}: HeatmapProps) {
+  const { spacing } = theme;
+  const weeks = generateWeeksForRange(range, dayBoundary);
 
   const counts = Array.from(dailyActivity.values());
-  const maxCount = counts.length > 0 ? Math.max(...counts) : 0;
+  const maxCount = fixedMaxCount ?? (counts.length > 0 ? Math.max(...counts) : 0);
 
-  const monthLabels = getMonthLabels(weeks, CELL_SIZE, CELL_GAP);
+  // Shrink cells when the range has more weeks than fit on one row (53-week years, multi-year ranges)
+  const cellSize = Math.min(CELL_SIZE, (width + CELL_GAP) / Math.max(weeks.length, 1) - CELL_GAP);
 
   return (
     <div
@@ -37,14 +63,35 @@ export function ActivityHeatmap({ dailyActivity, year, maxStreakDays }: HeatmapP
         gap: spacing[2],
       }}
     >
-      <MonthLabelsRow labels={monthLabels} />
-      <HeatmapGrid weeks={weeks} dailyActivity={dailyActivity} maxStreakDays={maxStreakDays} maxCount={maxCount} />
-      <HeatmapLegend />
+      {cellSize >= MIN_CELL_SIZE ? (
+        <div style={{ display: "flex", flexDirection: "column", gap: spacing[2] }}>
+          <AxisLabelsRow theme={theme} labels={getMonthLabels(weeks, cellSize, CELL_GAP)} />
+          <HeatmapGrid
+            theme={theme}
+            weeks={weeks}
+            dailyActivity={dailyActivity}
+            maxStreakDays={maxStreakDays}
+            maxCount={maxCount}
+            cellSize={cellSize}
+          />
+        </div>
+      ) : (
+        <MonthColumns
+          theme={theme}
+          dailyActivity={dailyActivity}
+          range={range}
+          dayBoundary={dayBoundary}
+          maxStreakDays={maxStreakDays}
+          width={width}
+        />
+      )}
+      <HeatmapLegend theme={theme} />
     </div>
   );
 }
 
-function MonthLabelsRow({ labels }: { labels: MonthLabel[] }) {
+function AxisLabelsRow({ labels, theme }: { labels: AxisLabel[]; theme: Theme }) {
+  const { colors, typography, spacing } = theme;
   return (
     <div
       style={{
@@ -55,9 +102,9 @@ function MonthLabelsRow({ labels }: { labels: MonthLabel[] }) {
         marginBottom: spacing[1],
       }}
     >
-      {labels.map(({ month, x }) => (
+      {labels.map(({ text, x }) => (
         <div
-          key={`${month}-${x}`}
+          key={`${text}-${x}`}
           style={{
             position: "absolute",
             left: x,
@@ -67,7 +114,7 @@ function MonthLabelsRow({ labels }: { labels: MonthLabel[] }) {
             fontFamily: typography.fontFamily.mono,
           }}
         >
-          {MONTHS[month]}
+          {text}
         </div>
       ))}
     </div>
@@ -79,9 +126,11 @@ interface HeatmapGridProps {
   dailyActivity: Map<string, number>;
   maxStreakDays?: Set<string>;
   maxCount: number;
+  cellSize: number;
+  theme: Theme;
 }
 
-function HeatmapGrid({ weeks, dailyActivity, maxStreakDays, maxCount }: HeatmapGridProps) {
+function HeatmapGrid({ weeks, dailyActivity, maxStreakDays, maxCount, cellSize, theme }: HeatmapGridProps) {
   return (
     <div
       style={{
@@ -93,7 +142,15 @@ function HeatmapGrid({ weeks, dailyActivity, maxStreakDays, maxCount }: HeatmapG
       }}
     >
       {weeks.map((week, weekIndex) => (
-        <WeekColumn key={weekIndex} week={week} dailyActivity={dailyActivity} maxStreakDays={maxStreakDays} maxCount={maxCount} />
+        <WeekColumn
+          theme={theme}
+          key={weekIndex}
+          week={week}
+          dailyActivity={dailyActivity}
+          maxStreakDays={maxStreakDays}
+          maxCount={maxCount}
+          cellSize={cellSize}
+        />
       ))}
     </div>
   );
@@ -104,9 +161,11 @@ interface WeekColumnProps {
   dailyActivity: Map<string, number>;
   maxStreakDays?: Set<string>;
   maxCount: number;
+  cellSize: number;
+  theme: Theme;
 }
 
-function WeekColumn({ week, dailyActivity, maxStreakDays, maxCount }: WeekColumnProps) {
+function WeekColumn({ week, dailyActivity, maxStreakDays, maxCount, cellSize, theme }: WeekColumnProps) {
   return (
     <div
       style={{
@@ -116,7 +175,15 @@ function WeekColumn({ week, dailyActivity, maxStreakDays, maxCount }: WeekColumn
       }}
     >
       {week.map((dateStr, dayIndex) => (
-        <DayCell key={dayIndex} dateStr={dateStr} dailyActivity={dailyActivity} maxStreakDays={maxStreakDays} maxCount={maxCount} />
+        <DayCell
+          theme={theme}
+          key={dayIndex}
+          dateStr={dateStr}
+          dailyActivity={dailyActivity}
+          maxStreakDays={maxStreakDays}
+          maxCount={maxCount}
+          cellSize={cellSize}
+        />
       ))}
     </div>
   );
@@ -127,20 +194,22 @@ interface DayCellProps {
   dailyActivity: Map<string, number>;
   maxStreakDays?: Set<string>;
   maxCount: number;
+  cellSize: number;
+  theme: Theme;
 }
 
-function DayCell({ dateStr, dailyActivity, maxStreakDays, maxCount }: DayCellProps) {
+function DayCell({ dateStr, dailyActivity, maxStreakDays, maxCount, cellSize, theme }: DayCellProps) {
   const count = dateStr ? dailyActivity.get(dateStr) || 0 : 0;
-  const intensity = getIntensityLevel(count, maxCount) as keyof typeof HEATMAP_COLORS;
+  const intensity = getIntensityLevel(count, maxCount) as IntensityLevel;
   const isStreakDay = dateStr && maxStreakDays?.has(dateStr);
-  const colorPalette = isStreakDay ? STREAK_COLORS : HEATMAP_COLORS;
+  const colorPalette = isStreakDay ? getStreakColors(theme.colors) : getHeatmapColors(theme.colors);
   const color = colorPalette[intensity];
 
   return (
     <div
       style={{
-        width: CELL_SIZE,
-        height: CELL_SIZE,
+        width: cellSize,
+        height: cellSize,
         backgroundColor: dateStr ? color : "transparent",
         borderRadius: CELL_RADIUS,
         display: "flex",
@@ -151,7 +220,83 @@ function DayCell({ dateStr, dailyActivity, maxStreakDays, maxCount }: DayCellPro
   );
 }
 
-function HeatmapLegend() {
+interface MonthColumnsProps {
+  dailyActivity: Map<string, number>;
+  range: DateRange;
+  dayBoundary: DayBoundary;
+  maxStreakDays?: Set<string>;
+  width: number;
+  theme: Theme;
+}
+
+/**
+ * Ranges too long for day cells get one column per month, or per few months when even those don't fit, colored by
+ * the column's total. Columns holding part of the longest streak use the streak colors.
+ */
+function MonthColumns({ dailyActivity, range, dayBoundary, maxStreakDays, width, theme }: MonthColumnsProps) {
+  const { spacing } = theme;
+  const months = getMonthsForRange(range, dayBoundary);
+  const heatmapColors = getHeatmapColors(theme.colors);
+  const streakColors = getStreakColors(theme.colors);
+  const monthsPerColumn = Math.max(1, Math.ceil((months.length * (MIN_CELL_SIZE + CELL_GAP)) / (width + CELL_GAP)));
+  const columnWidth = (width + CELL_GAP) / Math.ceil(months.length / monthsPerColumn) - CELL_GAP;
+
+  const totals = new Map<string, number>();
+  for (const [day, count] of dailyActivity) {
+    totals.set(day.slice(0, 7), (totals.get(day.slice(0, 7)) ?? 0) + count);
+  }
+  const streakMonths = new Set(Array.from(maxStreakDays ?? [], (day) => day.slice(0, 7)));
+
+  const columns: { months: string[]; count: number; isStreak: boolean }[] = [];
+  for (let i = 0; i < months.length; i += monthsPerColumn) {
+    const group = months.slice(i, i + monthsPerColumn);
+    columns.push({
+      months: group,
+      count: group.reduce((sum, month) => sum + (totals.get(month) ?? 0), 0),
+      isStreak: group.some((month) => streakMonths.has(month)),
+    });
+  }
+  const maxCount = Math.max(0, ...columns.map((column) => column.count));
+
+  // Label the first column of each year
+  const labels: AxisLabel[] = [];
+  let lastYear = "";
+  columns.forEach((column, i) => {
+    const year = column.months[0].slice(0, 4);
+    if (year !== lastYear) {
+      labels.push({ text: year, x: i * (columnWidth + CELL_GAP) });
+      lastYear = year;
+    }
+  });
+
+  return (
+    <div style={{ display: "flex", flexDirection: "column", gap: spacing[2] }}>
+      <AxisLabelsRow theme={theme} labels={withoutOverlaps(labels)} />
+      <div style={{ display: "flex", flexDirection: "row", gap: CELL_GAP }}>
+        {columns.map((column) => {
+          const intensity = getIntensityLevel(column.count, maxCount) as IntensityLevel;
+          return (
+            <div
+              key={column.months[0]}
+              style={{
+                width: columnWidth,
+                height: GRID_HEIGHT,
+                backgroundColor: (column.isStreak ? streakColors : heatmapColors)[intensity],
+                borderRadius: CELL_RADIUS,
+              }}
+            />
+          );
+        })}
+      </div>
+    </div>
+  );
+}
+
+function HeatmapLegend({ theme }: { theme: Theme }) {
+  const { typography, spacing } = theme;
+  const components = getComponentStyles(theme);
+  const heatmapColors = getHeatmapColors(theme.colors);
+
   return (
     <div
       style={{
@@ -177,16 +322,16 @@ function HeatmapLegend() {
         style={{
           display: "flex",
           flexDirection: "row",
-          gap: LEGEND_GAP,
+          gap: components.legend.gap,
         }}
       >
-        {(Object.keys(HEATMAP_COLORS) as unknown as (keyof typeof HEATMAP_COLORS)[]).map((intensity) => (
+        {(Object.keys(heatmapColors) as unknown as IntensityLevel[]).map((intensity) => (
           <div
             key={intensity}
             style={{
-              width: LEGEND_CELL_SIZE,
-              height: LEGEND_CELL_SIZE,
-              backgroundColor: HEATMAP_COLORS[intensity],
+              width: components.legend.cellSize,
+              height: components.legend.cellSize,
+              backgroundColor: heatmapColors[intensity],
               borderRadius: 3,
             }}
           />
@@ -207,8 +352,8 @@ function HeatmapLegend() {
   );
 }
 
-function getMonthLabels(weeks: (string | null)[][], cellSize: number, gap: number): MonthLabel[] {
-  const labels: MonthLabel[] = [];
+function getMonthLabels(weeks: (string | null)[][], cellSize: number, gap: number): AxisLabel[] {
+  const labels: AxisLabel[] = [];
   let lastMonth = -1;
 
   for (let weekIndex = 0; weekIndex < weeks.length; weekIndex++) {
@@ -220,7 +365,7 @@ function getMonthLabels(weeks: (string | null)[][], cellSize: number, gap: numbe
 
         if (month !== lastMonth) {
           labels.push({
-            month,
+            text: MONTHS[month],
             x: weekIndex * (cellSize + gap),
           });
           lastMonth = month;
@@ -230,5 +375,15 @@ function getMonthLabels(weeks: (string | null)[][], cellSize: number, gap: numbe
     }
   }
 
-  return labels;
+  return withoutOverlaps(labels);
+}
+
+function withoutOverlaps(labels: AxisLabel[]): AxisLabel[] {
+  const kept: AxisLabel[] = [];
+  for (const label of labels) {
+    if (kept.length === 0 || label.x - kept[kept.length - 1].x >= MIN_LABEL_SPACING) {
+      kept.push(label);
+    }
+  }
+  return kept;
 }
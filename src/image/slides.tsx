@@ -0,0 +1,302 @@
+import type { OpenCodeStats } from "../types";
+import { formatNumber, formatCost, formatDate, formatHour, formatShortDate } from "../utils/format";
+import { parseDateKey } from "../utils/dates";
+import { ActivityHeatmap } from "./heatmap";
+import { MonthlyTrendChart } from "./trend";
+import { getProviderLogoUrl } from "../models";
+import { evaluateAchievements } from "../achievements";
+import { canvasSizes, getComponentStyles, type Theme } from "./design-tokens";
+import {
+  CANVAS_PADDING,
+  BadgesStrip,
+  ChartPanel,
+  Footer,
+  Header,
+  HeroStatItem,
+  HourlyBarChart,
+  RankingList,
+  Section,
+  StatsGrid,
+  TokenBreakdownChart,
+  WeeklyBarChart,
+  getAgentItems,
+  getTheme,
+  type TemplateOptions,
+} from "./template";
+
+/** Slides are sized for stories */
+export const SLIDE_SIZE = canvasSizes.story;
+
+const SLIDE_PADDING = CANVAS_PADDING.story;
+const SLIDE_CONTENT_WIDTH = SLIDE_SIZE.width - SLIDE_PADDING.horizontal * 2;
+
+interface SlideProps {
+  stats: OpenCodeStats;
+  options: TemplateOptions;
+  theme: Theme;
+}
+
+export interface Slide {
+  /** Used in the file name, e.g. 02-tokens.png */
+  id: string;
+  Content: (props: SlideProps) => React.ReactNode;
+}
+
+/** The carousel, in order. Each slide is rendered on its own */
+export const SLIDES: Slide[] = [
+  { id: "intro", Content: IntroSlide },
+  { id: "tokens", Content: TokensSlide },
+  { id: "models", Content: ModelsSlide },
+  { id: "activity", Content: ActivitySlide },
+  { id: "streak", Content: StreakSlide },
+  { id: "weekday", Content: WeekdaySlide },
+  { id: "summary", Content: SummarySlide },
+];
+
+/** Story-sized frame around one slide: small header on top, position and footer at the bottom */
+export function SlideFrame({ slide, index, stats, options }: { slide: Slide; index: number } & Omit<SlideProps, "theme">) {
+  const theme = getTheme(options);
+  const { colors, typography } = theme;
+  const { Content } = slide;
+
+  return (
+    <div
+      style={{
+        width: SLIDE_SIZE.width,
+        height: SLIDE_SIZE.height,
+        display: "flex",
+        flexDirection: "column",
+        backgroundColor: colors.background,
+        color: colors.text.primary,
+        fontFamily: typography.fontFamily.mono,
+        paddingLeft: SLIDE_PADDING.horizontal,
+        paddingRight: SLIDE_PADDING.horizontal,
+        paddingTop: SLIDE_PADDING.top,
+        paddingBottom: SLIDE_PADDING.bottom,
+      }}
+    >
+      {/* The intro shows the full-size header itself */}
+      {index > 0 && (
+        <Header
+          theme={theme}
+          label={stats.range.label}
+          project={stats.project?.name}
+          comparedTo={options.comparison?.range.label}
+          compact
+        />
+      )}
+
+      <Content theme={theme} stats={stats} options={options} />
+
+      <SlideProgress theme={theme} index={index} count={SLIDES.length} />
+      <Footer theme={theme} />
+    </div>
+  );
+}
+
+/** Centers a slide's sections in the space between header and footer */
+function SlideBody({ children, theme }: { children: React.ReactNode; theme: Theme }) {
+  const { spacing } = theme;
+  return (
+    <div style={{ display: "flex", flexDirection: "column", justifyContent: "center", flex: 1, gap: spacing[12] }}>
+      {children}
+    </div>
+  );
+}
+
+function SlideProgress({ index, count, theme }: { index: number; count: number; theme: Theme }) {
+  const { colors, spacing } = theme;
+  return (
+    <div style={{ display: "flex", flexDirection: "row", gap: spacing[2] }}>
+      {Array.from({ length: count }, (_, i) => (
+        <div
+          key={i}
+          style={{
+            flex: 1,
+            height: 6,
+            borderRadius: 3,
+            backgroundColor: i <= index ? colors.accent.primary : colors.heatmap.empty,
+          }}
+        />
+      ))}
+    </div>
+  );
+}
+
+/** One big number with its label, the focus of most slides */
+function Headline({ label, value, detail, theme }: { label: string; value: string; detail?: string; theme: Theme }) {
+  const { colors, typography, spacing } = theme;
+  const components = getComponentStyles(theme);
+  return (
+    <div style={{ display: "flex", flexDirection: "column", gap: spacing[4] }}>
+      <span
+        style={{
+          fontSize: components.sectionHeader.fontSize,
+          fontWeight: components.sectionHeader.fontWeight,
+          color: components.sectionHeader.color,
+          letterSpacing: components.sectionHeader.letterSpacing,
+          textTransform: components.sectionHeader.textTransform,
+        }}
+      >
+        {label}
+      </span>
+      <span
+        style={{
+          fontSize: typography.size["6xl"] * 2,
+          fontWeight: typography.weight.bold,
+          color: colors.accent.primary,
+          lineHeight: typography.lineHeight.none,
+        }}
+      >
+        {value}
+      </span>
+      {detail && (
+        <span
+          style={{
+            fontSize: typography.size.xl,
+            fontWeight: typography.weight.medium,
+            color: colors.text.tertiary,
+          }}
+        >
+          {detail}
+        </span>
+      )}
+    </div>
+  );
+}
+
+function IntroSlide({ stats, options, theme }: SlideProps) {
+  return (
+    <SlideBody theme={theme}>
+      <Header theme={theme} label={stats.range.label} project={stats.project?.name} comparedTo={options.comparison?.range.label} />
+      <Headline
+        theme={theme}
+        label="Sessions"
+        value={formatNumber(stats.totalSessions)}
+        detail={`${formatNumber(stats.totalMessages)} messages across ${formatNumber(stats.totalProjects)} ${stats.totalProjects === 1 ? "project" : "projects"}`}
+      />
+      <div style={{ display: "flex" }}>
+        <HeroStatItem
+          theme={theme}
+          label="Started"
+          subtitle={formatDate(stats.firstSessionDate, stats.dayBoundary.timeZone)}
+          value={`${stats.daysSinceFirstSession} Days Ago`}
+        />
+      </div>
+    </SlideBody>
+  );
+}
+
+function TokensSlide({ stats, theme }: SlideProps) {
+  const cost = stats.estimatedCost > 0 ? `about ${formatCost(stats.estimatedCost)} at API prices` : undefined;
+
+  return (
+    <SlideBody theme={theme}>
+      <Headline theme={theme} label="Tokens" value={formatNumber(stats.totalTokens)} detail={cost} />
+      {stats.totalTokens > 0 && (
+        <TokenBreakdownChart theme={theme} tokens={stats.tokens} cacheHitRatio={stats.cacheHitRatio} models={stats.tokensByModel} />
+      )}
+    </SlideBody>
+  );
+}
+
+function ModelsSlide({ stats, theme }: SlideProps) {
+  return (
+    <SlideBody theme={theme}>
+      {/* Rows keep the lists from stretching to fill the slide */}
+      <div style={{ display: "flex" }}>
+        <RankingList theme={theme} title="Top Models" items={stats.topModels.map((m) => ({ name: m.name }))} />
+      </div>
+      <div style={{ display: "flex" }}>
+        <RankingList
+          theme={theme}
+          title="Providers"
+          items={stats.topProviders.map((p) => ({ name: p.name, logoUrl: getProviderLogoUrl(p.id) }))}
+        />
+      </div>
+      {stats.agents.length > 0 && (
+        <div style={{ display: "flex" }}>
+          <RankingList theme={theme} title="Agents" items={getAgentItems(stats)} />
+        </div>
+      )}
+    </SlideBody>
+  );
+}
+
+function ActivitySlide({ stats, theme }: SlideProps) {
+  return (
+    <SlideBody theme={theme}>
+      <Headline theme={theme} label="Active Days" value={formatNumber(stats.dailyActivity.size)} detail={`in ${stats.range.label}`} />
+      <Section theme={theme} title="Activity">
+        <ActivityHeatmap
+          theme={theme}
+          dailyActivity={stats.dailyActivity}
+          range={stats.range}
+          dayBoundary={stats.dayBoundary}
+          maxStreakDays={stats.maxStreakDays}
+          width={SLIDE_CONTENT_WIDTH}
+        />
+        {stats.monthlyActivity.length > 1 && <MonthlyTrendChart theme={theme} months={stats.monthlyActivity} width={SLIDE_CONTENT_WIDTH} />}
+      </Section>
+    </SlideBody>
+  );
+}
+
+function StreakSlide({ stats, theme }: SlideProps) {
+  const streakDays = Array.from(stats.maxStreakDays).sort().map(parseDateKey);
+  const streakRange =
+    streakDays.length > 1
+      ? `${formatShortDate(streakDays[0])} - ${formatShortDate(streakDays[streakDays.length - 1])}`
+      : undefined;
+
+  return (
+    <SlideBody theme={theme}>
+      <Headline theme={theme} label="Longest Streak" value={`${stats.maxStreak} days`} detail={streakRange} />
+      {stats.currentStreak > 0 && <Headline theme={theme} label="Current Streak" value={`${stats.currentStreak} days`} />}
+      <div style={{ display: "flex" }}>
+        <HeroStatItem
+          theme={theme}
+          label="Most Active Day"
+          subtitle={stats.weekdayActivity.mostActiveDayName}
+          value={stats.mostActiveDay?.formattedDate ?? "N/A"}
+        />
+      </div>
+    </SlideBody>
+  );
+}
+
+function WeekdaySlide({ stats, theme }: SlideProps) {
+  return (
+    <SlideBody theme={theme}>
+      <Headline
+        theme={theme}
+        label="Peak Hour"
+        value={formatHour(stats.hourlyActivity.peakHour)}
+        detail={stats.hourlyActivity.chronotypeLabel}
+      />
+      <ChartPanel theme={theme} title="Weekly">
+        <WeeklyBarChart theme={theme} weekdayActivity={stats.weekdayActivity} />
+      </ChartPanel>
+      <ChartPanel theme={theme} title="Coding Clock">
+        <HourlyBarChart theme={theme} hourlyActivity={stats.hourlyActivity} />
+      </ChartPanel>
+    </SlideBody>
+  );
+}
+
+function SummarySlide({ stats, options, theme }: SlideProps) {
+  const achievements = evaluateAchievements(stats);
+
+  return (
+    <SlideBody theme={theme}>
+      {achievements.length > 0 && (
+        <Section theme={theme} title="Badges">
+          <BadgesStrip theme={theme} achievements={achievements} width={SLIDE_CONTENT_WIDTH} max={2} />
+        </Section>
+      )}
+      <div style={{ display: "flex", flexDirection: "column" }}>
+        <StatsGrid theme={theme} stats={stats} comparison={options.comparison} limit={8} maxPerRow={2} />
+      </div>
+    </SlideBody>
+  );
+}
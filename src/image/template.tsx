@@ -1,71 +1,177 @@
-import type { OpenCodeStats, WeekdayActivity } from "../types";
-import { formatNumber, formatCost, formatShortDate, formatDate } from "../utils/format";
+import type {
+  Achievement,
+  FinishReason,
+  HourlyActivity,
+  ModelTokenStats,
+  OpenCodeStats,
+  ReliabilityStats,
+  StatDelta,
+  StatsComparison,
+  TokenBreakdown,
+  WeekdayActivity,
+} from "../types";
+import { formatNumber, formatCost, formatShortDate, formatDate, formatHour, formatChurn, formatDuration, formatLatency, formatPercent } from "../utils/format";
 import { ActivityHeatmap } from "./heatmap";
+import { MonthlyTrendChart } from "./trend";
 import { getProviderLogoUrl } from "../models";
-import { colors, typography, spacing, layout, components } from "./design-tokens";
+import { formatDelta } from "../compare";
+import { evaluateAchievements } from "../achievements";
+import {
+  layout,
+  canvasSizes,
+  getBuiltInTheme,
+  getComponentStyles,
+  DEFAULT_CANVAS_SIZE,
+  DEFAULT_THEME,
+  type CanvasSize,
+  type Theme,
+  type ThemeColors,
+} from "./design-tokens";
 import logo from "../../assets/images/opencode-wordmark-simple-dark.svg" with { type: 'text' }
 
-const OPENCODE_LOGO_DATA_URL = `data:image/svg+xml;base64,${Buffer.from(logo).toString("base64")}`;
+/** The wordmark is drawn in white, recolor its glyphs (not the mask) to the theme's text color */
+function getLogoDataUrl(colors: ThemeColors): string {
+  const svg = logo.replace(/<\/mask>(.*)<defs>/s, (glyphs) => glyphs.replaceAll("fill='white'", `fill='${colors.text.primary}'`));
+  return `data:image/svg+xml;base64,${Buffer.from(svg).toString("base64")}`;
+}
+
+export interface TemplateOptions {
+  /** Add a panel with finish reasons and error rates per provider */
+  reliability?: boolean;
+  /** Badge each stat box with its change since the compared period */
+  comparison?: StatsComparison;
+  /** Canvas preset, each with its own layout (default: card) */
+  size?: CanvasSize;
+  /** Fixed heatmap scale, so colors don't shift while an animation fills in the days */
+  heatmapMaxCount?: number;
+  /** Colors, type and spacing to draw with (default: the dark theme) */
+  theme?: Theme;
+}
+
+const RELIABILITY_PANEL_HEIGHT = 300;
+
+export const CANVAS_PADDING: Record<CanvasSize, { horizontal: number; top: number; bottom: number }> = {
+  card: layout.padding,
+  // Stories draw the profile bar over the top and the reply box over the bottom
+  story: { horizontal: 64, top: 120, bottom: 96 },
+  square: { horizontal: 56, top: 56, bottom: 40 },
+  og: { horizontal: 48, top: 40, bottom: 40 },
+  banner: { horizontal: 56, top: 40, bottom: 40 },
+};
+
+export function getTheme(options: TemplateOptions): Theme {
+  return options.theme ?? getBuiltInTheme(DEFAULT_THEME);
+}
+
+export function getCanvasSize(options: TemplateOptions): { width: number; height: number } {
+  const size = options.size ?? DEFAULT_CANVAS_SIZE;
+  const { width, height } = canvasSizes[size];
+  // Only the full card has room for the reliability panel
+  return { width, height: height + (options.reliability && size === "card" ? RELIABILITY_PANEL_HEIGHT : 0) };
+}
+
+interface LayoutProps {
+  stats: OpenCodeStats;
+  options: TemplateOptions;
+  /** Canvas width minus padding */
+  contentWidth: number;
+  theme: Theme;
+}
+
+const LAYOUTS: Record<CanvasSize, (props: LayoutProps) => React.ReactNode> = {
+  card: CardLayout,
+  story: StoryLayout,
+  square: SquareLayout,
+  og: OpenGraphLayout,
+  banner: BannerLayout,
+};
+
+export function WrappedTemplate({ stats, options = {} }: { stats: OpenCodeStats; options?: TemplateOptions }) {
+  const theme = getTheme(options);
+  const { colors, typography } = theme;
+  const size = options.size ?? DEFAULT_CANVAS_SIZE;
+  const { width, height } = getCanvasSize(options);
+  const padding = CANVAS_PADDING[size];
+  const Layout = LAYOUTS[size];
 
-export function WrappedTemplate({ stats }: { stats: OpenCodeStats }) {
   return (
     <div
       style={{
-        width: layout.canvas.width,
-        height: layout.canvas.height,
+        width,
+        height,
         display: "flex",
         flexDirection: "column",
         backgroundColor: colors.background,
         color: colors.text.primary,
         fontFamily: typography.fontFamily.mono,
-        paddingLeft: layout.padding.horizontal,
-        paddingRight: layout.padding.horizontal,
-        paddingTop: layout.padding.top,
-        paddingBottom: layout.padding.bottom,
+        paddingLeft: padding.horizontal,
+        paddingRight: padding.horizontal,
+        paddingTop: padding.top,
+        paddingBottom: padding.bottom,
       }}
     >
-      <Header year={stats.year} />
+      <Layout theme={theme} stats={stats} options={options} contentWidth={width - padding.horizontal * 2} />
+    </div>
+  );
+}
+
+/** The full-length card with every section */
+function CardLayout({ stats, options, contentWidth, theme }: LayoutProps) {
+  const { spacing } = theme;
+  const achievements = evaluateAchievements(stats);
+
+  return (
+    <div style={{ display: "flex", flexDirection: "column", flex: 1 }}>
+      <Header theme={theme} label={stats.range.label} project={stats.project?.name} comparedTo={options.comparison?.range.label} />
 
       <div style={{ marginTop: spacing[12], display: "flex", flexDirection: "row", gap: spacing[16], alignItems: "flex-start" }}>
         <HeroStatItem
+          theme={theme}
           label="Started"
-          subtitle={formatDate(stats.firstSessionDate)}
+          subtitle={formatDate(stats.firstSessionDate, stats.dayBoundary.timeZone)}
           value={`${stats.daysSinceFirstSession} Days Ago`}
         />
         <HeroStatItem
+          theme={theme}
           label="Most Active Day"
           subtitle={stats.weekdayActivity.mostActiveDayName}
           value={stats.mostActiveDay?.formattedDate ?? "N/A"}
         />
+        <HeroStatItem
+          theme={theme}
+          label="Peak Hour"
+          subtitle={stats.hourlyActivity.chronotypeLabel}
+          value={formatHour(stats.hourlyActivity.peakHour)}
+        />
+      </div>
 
-        <div
-          style={{
-            display: "flex",
-            flexDirection: "column",
-            backgroundColor: colors.surface,
-            borderRadius: layout.radius.lg,
-            padding: spacing[8],
-          }}
-        >
-          <span
-            style={{
-              fontSize: components.sectionHeader.fontSize,
-              fontWeight: components.sectionHeader.fontWeight,
-              color: components.sectionHeader.color,
-              letterSpacing: components.sectionHeader.letterSpacing,
-              textTransform: components.sectionHeader.textTransform,
-            }}
-          >
-            Weekly
-          </span>
-          <WeeklyBarChart weekdayActivity={stats.weekdayActivity} />
-        </div>
+      <div style={{ marginTop: spacing[6], display: "flex", flexDirection: "row", gap: spacing[6], alignItems: "flex-start" }}>
+        <ChartPanel theme={theme} title="Weekly">
+          <WeeklyBarChart theme={theme} weekdayActivity={stats.weekdayActivity} />
+        </ChartPanel>
+        <ChartPanel theme={theme} title="Coding Clock" grow>
+          <HourlyBarChart theme={theme} hourlyActivity={stats.hourlyActivity} />
+        </ChartPanel>
       </div>
 
-      <Section title="Activity" marginTop={spacing[10]}>
-        <ActivityHeatmap dailyActivity={stats.dailyActivity} year={stats.year} maxStreakDays={stats.maxStreakDays} />
+      <Section theme={theme} title="Activity" marginTop={spacing[10]}>
+        <ActivityHeatmap
+          theme={theme}
+          dailyActivity={stats.dailyActivity}
+          range={stats.range}
+          dayBoundary={stats.dayBoundary}
+          maxStreakDays={stats.maxStreakDays}
+          maxCount={options.heatmapMaxCount}
+        />
+        {stats.monthlyActivity.length > 1 && <MonthlyTrendChart theme={theme} months={stats.monthlyActivity} />}
       </Section>
 
+      {stats.totalTokens > 0 && (
+        <Section theme={theme} title="Tokens" marginTop={spacing[10]}>
+          <TokenBreakdownChart theme={theme} tokens={stats.tokens} cacheHitRatio={stats.cacheHitRatio} models={stats.tokensByModel} />
+        </Section>
+      )}
+
       <div
         style={{
           marginTop: spacing[12],
@@ -75,27 +181,247 @@ export function WrappedTemplate({ stats }: { stats: OpenCodeStats }) {
         }}
       >
         <RankingList
+          theme={theme}
           title="Top Models"
           items={stats.topModels.map((m) => ({
             name: m.name,
           }))}
         />
         <RankingList
+          theme={theme}
           title="Providers"
           items={stats.topProviders.map((p) => ({
             name: p.name,
             logoUrl: getProviderLogoUrl(p.id),
           }))}
         />
+        <RankingList theme={theme} title="Agents" items={getAgentItems(stats)} />
+        <RankingList
+          theme={theme}
+          title="Top Projects"
+          items={stats.projects.slice(0, 3).map((p) => ({
+            name: p.name,
+          }))}
+        />
       </div>
 
-      <StatsGrid stats={stats} />
-      <Footer />
+      <div
+        style={{
+          marginTop: spacing[10],
+          display: "flex",
+          flexDirection: "row",
+          gap: spacing[16],
+        }}
+      >
+        <RankingList
+          theme={theme}
+          title="Top Tools"
+          items={stats.tools.slice(0, 3).map((t) => ({
+            name: t.name,
+            detail: formatNumber(t.calls),
+          }))}
+        />
+        <RankingList theme={theme} title="Top Languages" items={getLanguageItems(stats)} />
+        {/* Keep the columns aligned with the row above */}
+        <div style={{ display: "flex", flex: 1 }} />
+        <div style={{ display: "flex", flex: 1 }} />
+      </div>
+
+      {achievements.length > 0 && (
+        <Section theme={theme} title="Badges" marginTop={spacing[10]}>
+          <BadgesStrip theme={theme} achievements={achievements} width={contentWidth} />
+        </Section>
+      )}
+
+      {options.reliability && (
+        <Section theme={theme} title="Reliability" marginTop={spacing[10]}>
+          <ReliabilityPanel theme={theme} providers={stats.reliabilityByProvider} />
+        </Section>
+      )}
+
+      <StatsGrid theme={theme} stats={stats} comparison={options.comparison} />
+      <Footer theme={theme} />
+    </div>
+  );
+}
+
+/** Stories: the card's sections stacked for a tall, narrow canvas */
+function StoryLayout({ stats, options, contentWidth, theme }: LayoutProps) {
+  const { spacing } = theme;
+  return (
+    <div style={{ display: "flex", flexDirection: "column", flex: 1 }}>
+      <Header theme={theme} label={stats.range.label} project={stats.project?.name} comparedTo={options.comparison?.range.label} />
+
+      <Section theme={theme} title="Activity" marginTop={spacing[12]}>
+        <ActivityHeatmap
+          theme={theme}
+          dailyActivity={stats.dailyActivity}
+          range={stats.range}
+          dayBoundary={stats.dayBoundary}
+          maxStreakDays={stats.maxStreakDays}
+          maxCount={options.heatmapMaxCount}
+          width={contentWidth}
+        />
+        {stats.monthlyActivity.length > 1 && <MonthlyTrendChart theme={theme} months={stats.monthlyActivity} width={contentWidth} />}
+      </Section>
+
+      <div style={{ marginTop: spacing[10], display: "flex", flexDirection: "row", gap: spacing[6], alignItems: "flex-start" }}>
+        <ChartPanel theme={theme} title="Weekly">
+          <WeeklyBarChart theme={theme} weekdayActivity={stats.weekdayActivity} />
+        </ChartPanel>
+        <ChartPanel theme={theme} title="Coding Clock" grow>
+          <HourlyBarChart theme={theme} hourlyActivity={stats.hourlyActivity} />
+        </ChartPanel>
+      </div>
+
+      <div style={{ marginTop: spacing[10], display: "flex", flexDirection: "row", gap: spacing[10] }}>
+        <RankingList theme={theme} title="Top Models" items={stats.topModels.map((m) => ({ name: m.name }))} />
+        <RankingList theme={theme} title="Agents" items={getAgentItems(stats)} />
+      </div>
+
+      <StatsGrid theme={theme} stats={stats} comparison={options.comparison} limit={6} maxPerRow={3} />
+      <Footer theme={theme} />
     </div>
   );
 }
 
-function Header({ year }: { year: number }) {
+/** Feed posts: the heatmap, top badges and headline numbers */
+function SquareLayout({ stats, options, contentWidth, theme }: LayoutProps) {
+  const { spacing } = theme;
+  const achievements = evaluateAchievements(stats);
+
+  return (
+    <div style={{ display: "flex", flexDirection: "column", flex: 1 }}>
+      <Header
+        theme={theme}
+        label={stats.range.label}
+        project={stats.project?.name}
+        comparedTo={options.comparison?.range.label}
+        compact
+      />
+
+      <Section theme={theme} title="Activity" marginTop={spacing[10]}>
+        <ActivityHeatmap
+          theme={theme}
+          dailyActivity={stats.dailyActivity}
+          range={stats.range}
+          dayBoundary={stats.dayBoundary}
+          maxStreakDays={stats.maxStreakDays}
+          maxCount={options.heatmapMaxCount}
+          width={contentWidth}
+        />
+      </Section>
+
+      {achievements.length > 0 && (
+        <div style={{ marginTop: spacing[8], display: "flex" }}>
+          <BadgesStrip theme={theme} achievements={achievements} width={contentWidth} max={3} />
+        </div>
+      )}
+
+      <StatsGrid theme={theme} stats={stats} comparison={options.comparison} limit={6} maxPerRow={3} />
+      <Footer theme={theme} />
+    </div>
+  );
+}
+
+/** Link previews: title, heatmap and one row of numbers, legible when shown small */
+function OpenGraphLayout({ stats, options, contentWidth, theme }: LayoutProps) {
+  const { spacing } = theme;
+  return (
+    <div style={{ display: "flex", flexDirection: "column", flex: 1 }}>
+      <Header
+        theme={theme}
+        label={stats.range.label}
+        project={stats.project?.name}
+        comparedTo={options.comparison?.range.label}
+        compact
+      />
+
+      <div style={{ marginTop: spacing[6], display: "flex" }}>
+        <ActivityHeatmap
+          theme={theme}
+          dailyActivity={stats.dailyActivity}
+          range={stats.range}
+          dayBoundary={stats.dayBoundary}
+          maxStreakDays={stats.maxStreakDays}
+          maxCount={options.heatmapMaxCount}
+          width={contentWidth}
+        />
+      </div>
+
+      <StatsGrid theme={theme} stats={stats} comparison={options.comparison} limit={3} maxPerRow={3} />
+    </div>
+  );
+}
+
+const BANNER_AVATAR_INSET = 280;
+
+/** X header: title and numbers on top, the heatmap along the bottom */
+function BannerLayout({ stats, options, contentWidth, theme }: LayoutProps) {
+  const { spacing } = theme;
+  return (
+    <div style={{ display: "flex", flexDirection: "column", flex: 1 }}>
+      <div style={{ display: "flex", flexDirection: "row", alignItems: "center", gap: spacing[10] }}>
+        <Header
+          theme={theme}
+          label={stats.range.label}
+          project={stats.project?.name}
+          comparedTo={options.comparison?.range.label}
+          compact
+        />
+        <div style={{ display: "flex", flexDirection: "column", flex: 1 }}>
+          <StatsGrid theme={theme} stats={stats} comparison={options.comparison} limit={3} maxPerRow={3} />
+        </div>
+      </div>
+
+      {/* X draws the profile picture over the bottom-left corner */}
+      <div style={{ marginTop: "auto", display: "flex", justifyContent: "flex-end" }}>
+        <ActivityHeatmap
+          theme={theme}
+          dailyActivity={stats.dailyActivity}
+          range={stats.range}
+          dayBoundary={stats.dayBoundary}
+          maxStreakDays={stats.maxStreakDays}
+          maxCount={options.heatmapMaxCount}
+          width={contentWidth - BANNER_AVATAR_INSET}
+        />
+      </div>
+    </div>
+  );
+}
+
+export function getAgentItems(stats: OpenCodeStats): RankingItem[] {
+  return stats.agents.slice(0, 3).map((a) => ({
+    name: a.name,
+    detail: `${Math.round(a.percentage)}%`,
+    highlight: a.custom,
+  }));
+}
+
+export function getLanguageItems(stats: OpenCodeStats): RankingItem[] {
+  const totalEdits = stats.languages.reduce((sum, l) => sum + l.edits, 0);
+  return stats.languages.slice(0, 3).map((l) => ({
+    name: l.name,
+    detail: `${Math.round((l.edits / totalEdits) * 100)}%`,
+  }));
+}
+
+interface HeaderProps {
+  label: string;
+  project?: string;
+  comparedTo?: string;
+  /** Smaller wordmark and title for the compact canvas sizes */
+  compact?: boolean;
+  theme: Theme;
+}
+
+// Width over height of the wordmark's viewBox, so it keeps its size in row layouts too
+const LOGO_ASPECT_RATIO = 641 / 115;
+
+export function Header({ label, project, comparedTo, compact = false, theme }: HeaderProps) {
+  const { colors, typography, spacing } = theme;
+  const logoHeight = compact ? 72 : 160;
+
   return (
     <div
       style={{
@@ -105,8 +431,9 @@ function Header({ year }: { year: number }) {
       }}
     >
       <img
-        src={OPENCODE_LOGO_DATA_URL}
-        height={160}
+        src={getLogoDataUrl(colors)}
+        width={Math.round(logoHeight * LOGO_ASPECT_RATIO)}
+        height={logoHeight}
         style={{
           objectFit: "contain",
         }}
@@ -114,7 +441,7 @@ function Header({ year }: { year: number }) {
 
       <span
         style={{
-          fontSize: typography.size["3xl"],
+          fontSize: compact ? typography.size.xl : typography.size["3xl"],
           fontWeight: typography.weight.regular,
           color: colors.text.secondary,
           marginTop: spacing[2],
@@ -127,8 +454,28 @@ function Header({ year }: { year: number }) {
             marginLeft: spacing[4],
           }}
         >
-          {year}
+          {label}
         </span>
+        {project && (
+          <span
+            style={{
+              color: colors.text.tertiary,
+              marginLeft: spacing[4],
+            }}
+          >
+            {project}
+          </span>
+        )}
+        {comparedTo && (
+          <span
+            style={{
+              color: colors.text.muted,
+              marginLeft: spacing[4],
+            }}
+          >
+            vs {comparedTo}
+          </span>
+        )}
       </span>
     </div>
   );
@@ -139,9 +486,12 @@ const BAR_HEIGHT = 100;
 const BAR_WIDTH = 56;
 const BAR_GAP = 12;
 
-const HERO_STAT_CONTENT_HEIGHT = BAR_HEIGHT + spacing[2] + 50;
+export function HeroStatItem({ label, subtitle, value, theme }: { label: string; subtitle?: string; value: string; theme: Theme }) {
+  const { colors, typography, spacing } = theme;
+  const components = getComponentStyles(theme);
+  // Matches the weekly chart next to it; read per render so theme spacing applies
+  const contentHeight = BAR_HEIGHT + spacing[2] + 50;
 
-function HeroStatItem({ label, subtitle, value }: { label: string; subtitle?: string; value: string }) {
   return (
     <div
       style={{
@@ -151,7 +501,7 @@ function HeroStatItem({ label, subtitle, value }: { label: string; subtitle?: st
         backgroundColor: colors.surface,
         borderRadius: layout.radius.lg,
         padding: spacing[8],
-        height: HERO_STAT_CONTENT_HEIGHT + spacing[8] * 2,
+        height: contentHeight + spacing[8] * 2,
       }}
     >
       <span
@@ -190,7 +540,8 @@ function HeroStatItem({ label, subtitle, value }: { label: string; subtitle?: st
   );
 }
 
-function WeeklyBarChart({ weekdayActivity }: { weekdayActivity: WeekdayActivity }) {
+export function WeeklyBarChart({ weekdayActivity, theme }: { weekdayActivity: WeekdayActivity; theme: Theme }) {
+  const { colors, typography, spacing } = theme;
   const { counts, mostActiveDay, maxCount } = weekdayActivity;
 
   return (
@@ -253,7 +604,308 @@ function WeeklyBarChart({ weekdayActivity }: { weekdayActivity: WeekdayActivity
   );
 }
 
-function Section({ title, marginTop = 0, children }: { title: string; marginTop?: number; children: React.ReactNode }) {
+const HOUR_BAR_GAP = 6;
+const HOUR_LABELS = [0, 6, 12, 18];
+
+export function HourlyBarChart({ hourlyActivity, theme }: { hourlyActivity: HourlyActivity; theme: Theme }) {
+  const { colors, typography, spacing } = theme;
+  const { counts, peakHour, maxCount } = hourlyActivity;
+
+  return (
+    <div style={{ display: "flex", flexDirection: "column", gap: spacing[2] }}>
+      <div
+        style={{
+          display: "flex",
+          flexDirection: "row",
+          alignItems: "flex-end",
+          gap: HOUR_BAR_GAP,
+          height: BAR_HEIGHT,
+        }}
+      >
+        {counts.map((count, hour) => {
+          const heightPercent = maxCount > 0 ? count / maxCount : 0;
+          const barHeight = Math.max(8, Math.round(heightPercent * BAR_HEIGHT));
+          const isHighlighted = hour === peakHour;
+
+          return (
+            <div
+              key={hour}
+              style={{
+                flex: 1,
+                height: barHeight,
+                backgroundColor: isHighlighted ? colors.accent.primary : colors.heatmap.level2,
+                borderRadius: 4,
+              }}
+            />
+          );
+        })}
+      </div>
+
+      <div
+        style={{
+          display: "flex",
+          flexDirection: "row",
+          gap: HOUR_BAR_GAP,
+        }}
+      >
+        {counts.map((_, hour) => {
+          const isHighlighted = hour === peakHour;
+          const showLabel = isHighlighted || HOUR_LABELS.includes(hour);
+          return (
+            <div
+              key={hour}
+              style={{
+                flex: 1,
+                display: "flex",
+                justifyContent: "flex-start",
+                fontSize: typography.size.sm,
+                fontWeight: isHighlighted ? typography.weight.bold : typography.weight.regular,
+                color: isHighlighted ? colors.accent.primary : colors.text.muted,
+              }}
+            >
+              {showLabel ? String(hour).padStart(2, "0") : ""}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
+
+const TOKEN_SEGMENTS: { key: Exclude<keyof TokenBreakdown, "total">; label: string }[] = [
+  { key: "input", label: "Input" },
+  { key: "output", label: "Output" },
+  { key: "reasoning", label: "Reasoning" },
+  { key: "cacheRead", label: "Cache Read" },
+  { key: "cacheWrite", label: "Cache Write" },
+];
+const TOKEN_BAR_HEIGHT = 28;
+const MODEL_TOKEN_BAR_HEIGHT = 12;
+const MODEL_TOKEN_LABEL_WIDTH = 280;
+
+export function TokenBreakdownChart({
+  tokens,
+  cacheHitRatio,
+  models,
+  theme,
+}: {
+  tokens: TokenBreakdown;
+  cacheHitRatio: number;
+  models: ModelTokenStats[];
+  theme: Theme;
+}) {
+  const { colors, typography, spacing } = theme;
+  return (
+    <div style={{ display: "flex", flexDirection: "column", gap: spacing[4] }}>
+      <StackedTokenBar theme={theme} tokens={tokens} height={TOKEN_BAR_HEIGHT} />
+
+      <div style={{ display: "flex", flexDirection: "row", alignItems: "center", gap: spacing[6] }}>
+        {TOKEN_SEGMENTS.filter(({ key }) => tokens[key] > 0).map(({ key, label }) => (
+          <div key={key} style={{ display: "flex", alignItems: "center", gap: spacing[2] }}>
+            <div style={{ width: 14, height: 14, borderRadius: 3, backgroundColor: colors.tokens[key] }} />
+            <span style={{ fontSize: typography.size.sm, color: colors.text.tertiary }}>
+              {`${label} ${formatNumber(tokens[key])}`}
+            </span>
+          </div>
+        ))}
+        {cacheHitRatio > 0 && (
+          <span
+            style={{
+              marginLeft: "auto",
+              fontSize: typography.size.sm,
+              fontWeight: typography.weight.bold,
+              color: colors.text.secondary,
+            }}
+          >
+            {`${Math.round(cacheHitRatio * 100)}% cache hits`}
+          </span>
+        )}
+      </div>
+
+      {models.slice(0, 3).map((model) => (
+        <div key={model.id} style={{ display: "flex", flexDirection: "row", alignItems: "center", gap: spacing[4] }}>
+          <span
+            style={{
+              width: MODEL_TOKEN_LABEL_WIDTH,
+              fontSize: typography.size.sm,
+              color: colors.text.tertiary,
+              overflow: "hidden",
+              whiteSpace: "nowrap",
+              textOverflow: "ellipsis",
+            }}
+          >
+            {`${model.name} · ${formatNumber(model.tokens.total)}`}
+          </span>
+          <div style={{ display: "flex", flex: 1 }}>
+            <StackedTokenBar theme={theme} tokens={model.tokens} height={MODEL_TOKEN_BAR_HEIGHT} />
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function StackedTokenBar({ tokens, height, theme }: { tokens: TokenBreakdown; height: number; theme: Theme }) {
+  const { colors } = theme;
+  return (
+    <div
+      style={{
+        display: "flex",
+        flexDirection: "row",
+        width: "100%",
+        height,
+        borderRadius: 4,
+        overflow: "hidden",
+        backgroundColor: colors.heatmap.empty,
+      }}
+    >
+      {TOKEN_SEGMENTS.filter(({ key }) => tokens[key] > 0).map(({ key }) => (
+        <div
+          key={key}
+          style={{
+            width: `${(tokens[key] / tokens.total) * 100}%`,
+            height: "100%",
+            backgroundColor: colors.tokens[key],
+          }}
+        />
+      ))}
+    </div>
+  );
+}
+
+/** Built on render so the colors follow the active theme */
+function getFinishSegments(colors: ThemeColors): { reason: FinishReason; label: string; color: string }[] {
+  return [
+    { reason: "stop", label: "Stop", color: colors.semantic.success },
+    { reason: "tool-calls", label: "Tool Calls", color: colors.semantic.info },
+    { reason: "length", label: "Length", color: colors.semantic.warning },
+    { reason: "error", label: "Error", color: colors.semantic.error },
+    { reason: "aborted", label: "Aborted", color: colors.text.muted },
+    { reason: "other", label: "Other", color: colors.heatmap.level2 },
+  ];
+}
+const RELIABILITY_MAX_ROWS = 4;
+
+function ReliabilityPanel({ providers, theme }: { providers: ReliabilityStats[]; theme: Theme }) {
+  const { colors, typography, spacing } = theme;
+  const finishSegments = getFinishSegments(colors);
+
+  return (
+    <div style={{ display: "flex", flexDirection: "column", gap: spacing[4] }}>
+      {providers.slice(0, RELIABILITY_MAX_ROWS).map((provider) => (
+        <div key={provider.id} style={{ display: "flex", flexDirection: "row", alignItems: "center", gap: spacing[4] }}>
+          <span
+            style={{
+              width: MODEL_TOKEN_LABEL_WIDTH,
+              fontSize: typography.size.md,
+              color: colors.text.secondary,
+              overflow: "hidden",
+              whiteSpace: "nowrap",
+              textOverflow: "ellipsis",
+            }}
+          >
+            {provider.name}
+          </span>
+          <div
+            style={{
+              display: "flex",
+              flex: 1,
+              height: MODEL_TOKEN_BAR_HEIGHT * 2,
+              borderRadius: 4,
+              overflow: "hidden",
+              backgroundColor: colors.heatmap.empty,
+            }}
+          >
+            {finishSegments.filter(({ reason }) => provider.finishReasons[reason] > 0).map(({ reason, color }) => (
+              <div
+                key={reason}
+                style={{
+                  width: `${(provider.finishReasons[reason] / provider.messages) * 100}%`,
+                  height: "100%",
+                  backgroundColor: color,
+                }}
+              />
+            ))}
+          </div>
+          <span
+            style={{
+              width: 240,
+              fontSize: typography.size.sm,
+              fontWeight: provider.errorRate > 0 ? typography.weight.bold : typography.weight.regular,
+              color: provider.errorRate > 0 ? colors.semantic.error : colors.text.muted,
+              textAlign: "right",
+            }}
+          >
+            {`${formatPercent(provider.errorRate)} errors · ${formatPercent(provider.abortRate)} aborted`}
+          </span>
+        </div>
+      ))}
+
+      <div style={{ display: "flex", flexDirection: "row", gap: spacing[6] }}>
+        {finishSegments.map(({ reason, label, color }) => (
+          <div key={reason} style={{ display: "flex", alignItems: "center", gap: spacing[2] }}>
+            <div style={{ width: 14, height: 14, borderRadius: 3, backgroundColor: color }} />
+            <span style={{ fontSize: typography.size.sm, color: colors.text.tertiary }}>{label}</span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+export function ChartPanel({
+  title,
+  grow = false,
+  children,
+  theme,
+}: {
+  title: string;
+  grow?: boolean;
+  children: React.ReactNode;
+  theme: Theme;
+}) {
+  const { colors, spacing } = theme;
+  const components = getComponentStyles(theme);
+  return (
+    <div
+      style={{
+        display: "flex",
+        flexDirection: "column",
+        ...(grow && { flex: 1 }),
+        backgroundColor: colors.surface,
+        borderRadius: layout.radius.lg,
+        padding: spacing[8],
+      }}
+    >
+      <span
+        style={{
+          fontSize: components.sectionHeader.fontSize,
+          fontWeight: components.sectionHeader.fontWeight,
+          color: components.sectionHeader.color,
+          letterSpacing: components.sectionHeader.letterSpacing,
+          textTransform: components.sectionHeader.textTransform,
+        }}
+      >
+        {title}
+      </span>
+      {children}
+    </div>
+  );
+}
+
+export function Section({
+  title,
+  marginTop = 0,
+  children,
+  theme,
+}: {
+  title: string;
+  marginTop?: number;
+  children: React.ReactNode;
+  theme: Theme;
+}) {
+  const { spacing } = theme;
+  const components = getComponentStyles(theme);
   return (
     <div
       style={{
@@ -279,12 +931,89 @@ function Section({ title, marginTop = 0, children }: { title: string; marginTop?
   );
 }
 
-interface RankingItem {
+const MAX_BADGES = 4;
+
+export function BadgesStrip({
+  achievements,
+  width,
+  max = MAX_BADGES,
+  theme,
+}: {
+  achievements: Achievement[];
+  width: number;
+  max?: number;
+  theme: Theme;
+}) {
+  const { colors, typography, spacing } = theme;
+  const components = getComponentStyles(theme);
+  return (
+    <div style={{ display: "flex", flexDirection: "row", gap: spacing[5] }}>
+      {achievements.slice(0, max).map((a) => (
+        <div
+          key={a.id}
+          style={{
+            display: "flex",
+            flexDirection: "column",
+            // Keep every badge the same width when fewer than `max` are earned
+            width: (width - spacing[5] * (max - 1)) / max,
+            gap: spacing[1],
+            paddingTop: spacing[4],
+            paddingBottom: spacing[4],
+            paddingLeft: spacing[5],
+            paddingRight: spacing[5],
+            backgroundColor: components.card.background,
+            borderRadius: components.card.borderRadius,
+            borderLeft: `4px solid ${colors.tiers[a.tier]}`,
+          }}
+        >
+          <span
+            style={{
+              fontSize: typography.size.xs,
+              fontWeight: typography.weight.bold,
+              color: colors.tiers[a.tier],
+              textTransform: "uppercase",
+              letterSpacing: typography.letterSpacing.wider,
+            }}
+          >
+            {a.tier}
+          </span>
+          <span
+            style={{
+              fontSize: typography.size.md,
+              fontWeight: typography.weight.bold,
+              color: colors.text.primary,
+            }}
+          >
+            {a.name}
+          </span>
+          <span
+            style={{
+              fontSize: typography.size.sm,
+              fontWeight: typography.weight.medium,
+              color: colors.text.muted,
+              overflow: "hidden",
+              whiteSpace: "nowrap",
+              textOverflow: "ellipsis",
+            }}
+          >
+            {a.description}
+          </span>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export interface RankingItem {
   name: string;
   logoUrl?: string;
+  detail?: string;
+  highlight?: boolean;
 }
 
-function RankingList({ title, items }: { title: string; items: RankingItem[] }) {
+export function RankingList({ title, items, theme }: { title: string; items: RankingItem[]; theme: Theme }) {
+  const { spacing } = theme;
+  const components = getComponentStyles(theme);
   return (
     <div
       style={{
@@ -292,6 +1021,7 @@ function RankingList({ title, items }: { title: string; items: RankingItem[] })
         flexDirection: "column",
         gap: spacing[5],
         flex: 1,
+        minWidth: 0,
       }}
     >
       <span
@@ -313,7 +1043,15 @@ function RankingList({ title, items }: { title: string; items: RankingItem[] })
         }}
       >
         {items.map((item, i) => (
-          <RankingItemRow key={i} rank={i + 1} name={item.name} logoUrl={item.logoUrl} />
+          <RankingItemRow
+            key={i}
+            rank={i + 1}
+            name={item.name}
+            logoUrl={item.logoUrl}
+            detail={item.detail}
+            highlight={item.highlight}
+            theme={theme}
+          />
         ))}
       </div>
     </div>
@@ -324,9 +1062,14 @@ interface RankingItemRowProps {
   rank: number;
   name: string;
   logoUrl?: string;
+  detail?: string;
+  highlight?: boolean;
+  theme: Theme;
 }
 
-function RankingItemRow({ rank, name, logoUrl }: RankingItemRowProps) {
+function RankingItemRow({ rank, name, logoUrl, detail, highlight = false, theme }: RankingItemRowProps) {
+  const { colors, typography, spacing } = theme;
+  const components = getComponentStyles(theme);
   return (
     <div
       style={{
@@ -363,17 +1106,109 @@ function RankingItemRow({ rank, name, logoUrl }: RankingItemRowProps) {
         style={{
           fontSize: components.ranking.itemSize,
           fontWeight: typography.weight.medium,
-          color: colors.text.primary,
+          color: highlight ? colors.accent.primary : colors.text.primary,
+          overflow: "hidden",
+          whiteSpace: "nowrap",
+          textOverflow: "ellipsis",
         }}
       >
         {name}
       </span>
+
+      {detail && (
+        <span
+          style={{
+            fontSize: typography.size.sm,
+            fontWeight: typography.weight.medium,
+            color: colors.text.muted,
+            whiteSpace: "nowrap",
+          }}
+        >
+          {detail}
+        </span>
+      )}
     </div>
   );
 }
 
-function StatsGrid({ stats }: { stats: OpenCodeStats }) {
+const MAX_STAT_BOXES_PER_ROW = 4;
+
+interface StatsGridProps {
+  stats: OpenCodeStats;
+  comparison?: StatsComparison;
+  /** Show only the first boxes, for the compact canvas sizes */
+  limit?: number;
+  maxPerRow?: number;
+  theme: Theme;
+}
+
+export function StatsGrid({ stats, comparison, limit, maxPerRow = MAX_STAT_BOXES_PER_ROW, theme }: StatsGridProps) {
+  const { spacing } = theme;
   const hasZen = stats.hasZenUsage;
+  const hasCost = stats.recordedCost > 0 || stats.estimatedCost > 0;
+  const { codeChurn, sessionTime, fastestModel } = stats;
+  const deltas = comparison?.deltas;
+
+  const boxes = [
+    <StatBox
+      theme={theme}
+      label="Sessions"
+      value={formatNumber(stats.totalSessions)}
+      detail={sessionTime.medianDuration > 0 ? `median ${formatDuration(sessionTime.medianDuration)}` : undefined}
+      delta={deltas?.sessions}
+    />,
+    <StatBox theme={theme} label="Messages" value={formatNumber(stats.totalMessages)} delta={deltas?.messages} />,
+    <StatBox theme={theme} label={hasZen ? "Total Tokens" : "Tokens"} value={formatNumber(stats.totalTokens)} delta={deltas?.tokens} />,
+    codeChurn.additions + codeChurn.deletions > 0 && (
+      <StatBox
+        theme={theme}
+        label="Lines Changed"
+        value={formatNumber(codeChurn.additions + codeChurn.deletions)}
+        detail={`${formatChurn(codeChurn)} · ${formatNumber(codeChurn.files)} files`}
+        delta={deltas?.linesChanged}
+      />
+    ),
+    sessionTime.activeTime > 0 && (
+      <StatBox
+        theme={theme}
+        label="Time with AI"
+        value={formatDuration(sessionTime.activeTime)}
+        detail={sessionTime.longestSession ? `longest ${formatDuration(sessionTime.longestSession.duration)}` : undefined}
+        delta={deltas?.activeTime}
+      />
+    ),
+    fastestModel && (
+      <StatBox
+        theme={theme}
+        label="Fastest Model"
+        value={fastestModel.name}
+        detail={`${Math.round(fastestModel.outputTokensPerSecond)} tok/s · p50 ${formatLatency(fastestModel.latency.p50)}`}
+      />
+    ),
+    <StatBox theme={theme} label="Projects" value={formatNumber(stats.totalProjects)} delta={deltas?.projects} />,
+    <StatBox theme={theme} label="Streak" value={`${stats.maxStreak}d`} delta={deltas?.streak} />,
+    hasZen && <StatBox theme={theme} label="OpenCode Zen Cost" value={formatCost(stats.totalCost)} delta={deltas?.zenCost} />,
+    hasCost && (
+      <StatBox
+        theme={theme}
+        label="Est. Cost"
+        value={formatCost(stats.estimatedCost)}
+        detail={`${formatCost(stats.recordedCost)} recorded`}
+        delta={deltas?.estimatedCost}
+      />
+    ),
+  ]
+    .filter(Boolean)
+    .slice(0, limit);
+
+  // Spread boxes evenly over as few rows as fit, e.g. 10 boxes become rows of 4, 3 and 3
+  const rowCount = Math.ceil(boxes.length / maxPerRow);
+  const rows: (typeof boxes)[] = [];
+  for (let i = 0, start = 0; i < rowCount; i++) {
+    const size = Math.ceil((boxes.length - start) / (rowCount - i));
+    rows.push(boxes.slice(start, start + size));
+    start += size;
+  }
 
   return (
     <div
@@ -384,34 +1219,11 @@ function StatsGrid({ stats }: { stats: OpenCodeStats }) {
         gap: spacing[5],
       }}
     >
-      {hasZen ? (
-        <div style={{ display: "flex", flexDirection: "column", gap: spacing[5] }}>
-          <div style={{ display: "flex", gap: spacing[5] }}>
-            <StatBox label="Sessions" value={formatNumber(stats.totalSessions)} />
-            <StatBox label="Messages" value={formatNumber(stats.totalMessages)} />
-            <StatBox label="Total Tokens" value={formatNumber(stats.totalTokens)} />
-          </div>
-
-          <div style={{ display: "flex", gap: spacing[5] }}>
-            <StatBox label="Projects" value={formatNumber(stats.totalProjects)} />
-            <StatBox label="Streak" value={`${stats.maxStreak}d`} />
-            <StatBox label="OpenCode Zen Cost" value={formatCost(stats.totalCost)} />
-          </div>
-        </div>
-      ) : (
-        <div style={{ display: "flex", flexDirection: "column", gap: spacing[5] }}>
-          <div style={{ display: "flex", gap: spacing[5] }}>
-            <StatBox label="Sessions" value={formatNumber(stats.totalSessions)} />
-            <StatBox label="Messages" value={formatNumber(stats.totalMessages)} />
-            <StatBox label="Tokens" value={formatNumber(stats.totalTokens)} />
-          </div>
-
-          <div style={{ display: "flex", gap: spacing[5] }}>
-            <StatBox label="Projects" value={formatNumber(stats.totalProjects)} />
-            <StatBox label="Streak" value={`${stats.maxStreak}d`} />
-          </div>
+      {rows.map((row, i) => (
+        <div key={i} style={{ display: "flex", gap: spacing[5] }}>
+          {row}
         </div>
-      )}
+      ))}
     </div>
   );
 }
@@ -419,12 +1231,18 @@ function StatsGrid({ stats }: { stats: OpenCodeStats }) {
 interface StatBoxProps {
   label: string;
   value: string;
+  detail?: string;
+  delta?: StatDelta;
+  theme: Theme;
 }
 
-function StatBox({ label, value }: StatBoxProps) {
+export function StatBox({ label, value, detail, delta, theme }: StatBoxProps) {
+  const { colors, typography } = theme;
+  const components = getComponentStyles(theme);
   return (
     <div
       style={{
+        position: "relative",
         display: "flex",
         flexDirection: "column",
         backgroundColor: components.statBox.background,
@@ -461,11 +1279,57 @@ function StatBox({ label, value }: StatBoxProps) {
       >
         {value}
       </span>
+
+      {detail && (
+        <span
+          style={{
+            fontSize: typography.size.sm,
+            fontWeight: typography.weight.medium,
+            color: colors.text.muted,
+          }}
+        >
+          {detail}
+        </span>
+      )}
+
+      {delta && <DeltaBadge theme={theme} delta={delta} />}
     </div>
   );
 }
 
-function Footer() {
+function DeltaBadge({ delta, theme }: { delta: StatDelta; theme: Theme }) {
+  const { colors, typography, spacing } = theme;
+  const color =
+    delta.current > delta.previous
+      ? colors.semantic.success
+      : delta.current < delta.previous
+        ? colors.semantic.error
+        : colors.text.muted;
+
+  return (
+    <span
+      style={{
+        position: "absolute",
+        top: spacing[2],
+        right: spacing[2],
+        paddingLeft: spacing[2],
+        paddingRight: spacing[2],
+        paddingTop: 2,
+        paddingBottom: 2,
+        fontSize: typography.size.sm,
+        fontWeight: typography.weight.bold,
+        color,
+        backgroundColor: colors.background,
+        borderRadius: layout.radius.sm,
+      }}
+    >
+      {formatDelta(delta)}
+    </span>
+  );
+}
+
+export function Footer({ theme }: { theme: Theme }) {
+  const { colors, typography, spacing } = theme;
   return (
     <div
       style={{
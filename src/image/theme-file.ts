@@ -0,0 +1,155 @@
+// Theme files - brand colors and type scale from JSON or TOML, merged onto a built-in theme
+
+import { extname, join } from "node:path";
+import { xdgConfig } from "xdg-basedir";
+import { DEFAULT_THEME, getBuiltInTheme, isThemeName, themes, type Theme, type ThemeName } from "./design-tokens";
+
+/** Used when no --theme-file is given, first one that exists wins */
+export const DEFAULT_THEME_FILES = xdgConfig
+  ? ["theme.json", "theme.toml"].map((name) => join(xdgConfig!, "oc-wrapped", name))
+  : [];
+
+const THEME_FILE_KEYS = ["base", "colors", "typography", "spacing"];
+
+// Only the bundled fonts can be rendered
+const FIXED_KEYS = new Set(["typography.fontFamily"]);
+
+// Letter spacing can go negative to tighten text, weights only pick a font face
+const SIGNED_KEYS = "typography.letterSpacing.";
+const WEIGHT_KEYS = "typography.weight.";
+const MAX_FONT_WEIGHT = 900;
+
+const HEX_COLOR = /^#(?:[0-9a-f]{3}|[0-9a-f]{6}|[0-9a-f]{8})$/i;
+
+export async function findThemeFile(): Promise<string | undefined> {
+  for (const path of DEFAULT_THEME_FILES) {
+    if (await Bun.file(path).exists()) return path;
+  }
+  return undefined;
+}
+
+/**
+ * Load a theme file and merge it onto a built-in theme: `base` (a CLI --theme wins over the file's own `base` key),
+ * then the file's `colors`, `typography` and `spacing` overrides. Only keys that exist in the built-in tokens are
+ * accepted. Throws with every problem found, one per line.
+ */
+export async function loadThemeFile(path: string, base?: ThemeName): Promise<Theme> {
+  const file = Bun.file(path);
+  if (!(await file.exists())) {
+    throw new Error(`Theme file not found: ${path}`);
+  }
+
+  let data: unknown;
+  try {
+    const text = await file.text();
+    const format = extname(path).toLowerCase();
+    if (format === ".json") {
+      data = JSON.parse(text);
+    } else if (format === ".toml") {
+      data = Bun.TOML.parse(text);
+    } else {
+      throw new Error(`unsupported format "${format}" (expected .json or .toml)`);
+    }
+  } catch (error) {
+    throw new Error(`Invalid theme file ${path}: ${error instanceof Error ? error.message : error}`);
+  }
+
+  if (!isPlainObject(data)) {
+    throw new Error(`Invalid theme file ${path}: expected an object at the top level`);
+  }
+
+  const errors: string[] = [];
+  for (const key of Object.keys(data)) {
+    if (!THEME_FILE_KEYS.includes(key)) {
+      errors.push(`Unknown key "${key}" (expected one of: ${THEME_FILE_KEYS.join(", ")})`);
+    }
+  }
+
+  if (data.base !== undefined && (typeof data.base !== "string" || !isThemeName(data.base))) {
+    errors.push(`"base" must be one of: ${Object.keys(themes).join(", ")}, got ${JSON.stringify(data.base)}`);
+  }
+  const fileBase = typeof data.base === "string" && isThemeName(data.base) ? data.base : undefined;
+  const baseTheme = getBuiltInTheme(base ?? fileBase ?? DEFAULT_THEME);
+
+  for (const section of ["colors", "typography", "spacing"] as const) {
+    if (data[section] !== undefined) {
+      validateOverrides(data[section], baseTheme[section], section, errors);
+    }
+  }
+
+  if (errors.length > 0) {
+    throw new Error(`Invalid theme file ${path}:\n  - ${errors.join("\n  - ")}`);
+  }
+
+  return {
+    colors: mergeTokens(baseTheme.colors, data.colors),
+    typography: mergeTokens(baseTheme.typography, data.typography),
+    spacing: mergeTokens(baseTheme.spacing, data.spacing),
+  };
+}
+
+/** Check overrides against the shape and value types of the built-in tokens */
+function validateOverrides(value: unknown, reference: object, path: string, errors: string[]): void {
+  if (!isPlainObject(value)) {
+    errors.push(`"${path}" must be a table of overrides, got ${JSON.stringify(value)}`);
+    return;
+  }
+
+  for (const [key, override] of Object.entries(value)) {
+    const keyPath = `${path}.${key}`;
+    if (!Object.hasOwn(reference, key)) {
+      errors.push(`Unknown key "${keyPath}" (expected one of: ${Object.keys(reference).join(", ")})`);
+      continue;
+    }
+    if (FIXED_KEYS.has(keyPath)) {
+      errors.push(`"${keyPath}" can't be changed, only the bundled IBM Plex Mono font is available`);
+      continue;
+    }
+
+    const expected: unknown = reference[key as keyof typeof reference];
+    if (typeof expected === "object" && expected !== null) {
+      validateOverrides(override, expected, keyPath, errors);
+    } else if (typeof expected === "number") {
+      if (typeof override !== "number" || !Number.isFinite(override)) {
+        errors.push(`"${keyPath}" must be a number, got ${JSON.stringify(override)}`);
+      } else {
+        const problem = checkLimits(keyPath, override, expected);
+        if (problem) errors.push(problem);
+      }
+    } else if (typeof override !== "string" || !HEX_COLOR.test(override)) {
+      errors.push(`"${keyPath}" must be a hex color like "#6CC644", got ${JSON.stringify(override)}`);
+    }
+  }
+}
+
+/**
+ * Sizes and spacing can shrink but not grow past the built-in value: the card already fills its canvas, and larger
+ * values push sections off the edge.
+ */
+function checkLimits(keyPath: string, value: number, builtIn: number): string | undefined {
+  if (!keyPath.startsWith(SIGNED_KEYS) && (value < 0 || (value === 0 && builtIn > 0))) {
+    return `"${keyPath}" must be a positive number, got ${value}`;
+  }
+  if (keyPath.startsWith(WEIGHT_KEYS)) {
+    return value > MAX_FONT_WEIGHT ? `"${keyPath}" can't be above ${MAX_FONT_WEIGHT}, got ${value}` : undefined;
+  }
+  if (value > builtIn) {
+    return `"${keyPath}" can't be larger than the built-in ${builtIn}, got ${value}`;
+  }
+  return undefined;
+}
+
+function mergeTokens<T extends object>(base: T, overrides: unknown): T {
+  if (!isPlainObject(overrides)) return base;
+
+  const merged = { ...base } as Record<string, unknown>;
+  for (const [key, override] of Object.entries(overrides)) {
+    const current = merged[key];
+    merged[key] = isPlainObject(current) ? mergeTokens(current, override) : override;
+  }
+  return merged as T;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
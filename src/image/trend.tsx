@@ -0,0 +1,101 @@
+import type { MonthlyActivity } from "../types";
+import { formatNumber } from "../utils/format";
+import { MONTH_NAMES, parseDateKey } from "../utils/dates";
+import { layout, type Theme } from "./design-tokens";
+
+const CHART_WIDTH = layout.canvas.width - layout.padding.horizontal * 2;
+const CHART_HEIGHT = 96;
+// Room above the peak for its value label
+const CHART_TOP_PADDING = 24;
+const POINT_RADIUS = 4;
+
+/** Area chart of messages per month, drawn under the heatmap */
+export function MonthlyTrendChart({
+  months,
+  width = CHART_WIDTH,
+  theme,
+}: {
+  months: MonthlyActivity[];
+  width?: number;
+  theme: Theme;
+}) {
+  const { colors, typography, spacing } = theme;
+  const peakIndex = months.reduce((peak, m, i) => (m.messages > months[peak].messages ? i : peak), 0);
+  const maxMessages = Math.max(months[peakIndex].messages, 1);
+  const spansYears = months[0].month.slice(0, 4) !== months[months.length - 1].month.slice(0, 4);
+
+  // Inset by the point radius so dots at the edges and on the baseline aren't clipped
+  const step = (width - POINT_RADIUS * 2) / Math.max(months.length - 1, 1);
+  const points = months.map((m, i) => ({
+    x: POINT_RADIUS + i * step,
+    y: CHART_TOP_PADDING + (1 - m.messages / maxMessages) * (CHART_HEIGHT - CHART_TOP_PADDING - POINT_RADIUS * 2),
+  }));
+
+  const line = points.map((p) => `${p.x},${p.y}`).join(" ");
+  const area = `M${points[0].x},${CHART_HEIGHT} L${line.replaceAll(" ", " L")} L${points[points.length - 1].x},${CHART_HEIGHT} Z`;
+
+  return (
+    <div style={{ display: "flex", flexDirection: "column", gap: spacing[2] }}>
+      <div style={{ display: "flex", position: "relative", width, height: CHART_HEIGHT }}>
+        <svg width={width} height={CHART_HEIGHT} viewBox={`0 0 ${width} ${CHART_HEIGHT}`}>
+          <path d={area} fill={colors.accent.primary} fillOpacity={0.15} />
+          <polyline points={line} fill="none" stroke={colors.accent.primary} strokeWidth={3} strokeLinejoin="round" />
+          {points.map((p, i) => (
+            <circle
+              key={i}
+              cx={p.x}
+              cy={p.y}
+              r={POINT_RADIUS}
+              fill={i === peakIndex ? colors.accent.primary : colors.background}
+              stroke={colors.accent.primary}
+              strokeWidth={2}
+            />
+          ))}
+        </svg>
+
+        {months[peakIndex].messages > 0 && (
+          <span
+            style={{
+              position: "absolute",
+              top: 0,
+              // Centered over the peak, kept inside the chart
+              left: Math.min(Math.max(points[peakIndex].x - 60, 0), width - 120),
+              width: 120,
+              justifyContent: "center",
+              fontSize: typography.size.xs,
+              fontWeight: typography.weight.bold,
+              color: colors.accent.primary,
+            }}
+          >
+            {formatNumber(maxMessages)} msgs
+          </span>
+        )}
+      </div>
+
+      <div style={{ display: "flex", position: "relative", height: 16 }}>
+        {months.map((m, i) => (
+          <span
+            key={m.month}
+            style={{
+              position: "absolute",
+              left: Math.min(Math.max(points[i].x - 30, 0), width - 60),
+              width: 60,
+              justifyContent: "center",
+              fontSize: typography.size.xs,
+              fontWeight: typography.weight.medium,
+              color: i === peakIndex ? colors.text.secondary : colors.text.muted,
+            }}
+          >
+            {formatMonthLabel(m.month, spansYears)}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+function formatMonthLabel(month: string, withYear: boolean): string {
+  const date = parseDateKey(`${month}-01`);
+  const name = MONTH_NAMES[date.getMonth()];
+  return withYear ? `${name} '${String(date.getFullYear()).slice(2)}` : name;
+}
@@ -1,70 +1,295 @@
 #!/usr/bin/env bun
 
 import * as p from "@clack/prompts";
-import { join } from "node:path";
+import { mkdir } from "node:fs/promises";
+import { extname, join, resolve } from "node:path";
 import { parseArgs } from "node:util";
 
-import { xdgData } from "xdg-basedir";
-
-import { checkOpenCodeDataExists } from "./collector";
-import { calculateStats } from "./stats";
-import { generateImage } from "./image/generator";
+import { DATA_DIR_ENV, checkOpenCodeDataExists, resolveDataPaths } from "./collector";
+import { calculateStats, type StatsOptions } from "./stats";
+import { COMPARED_METRICS, compareStats, describeDelta } from "./compare";
+import { evaluateAchievements } from "./achievements";
+import {
+  generateAnimation,
+  generateImage,
+  generateSlides,
+  type GeneratedAnimation,
+  type GeneratedSlide,
+} from "./image/generator";
+import { SLIDES } from "./image/slides";
+import { getAnimationFormat } from "./image/animation";
+import type { TemplateOptions } from "./image/template";
+import {
+  DEFAULT_CANVAS_SIZE,
+  DEFAULT_THEME,
+  canvasSizes,
+  getBuiltInTheme,
+  isCanvasSize,
+  isThemeName,
+  themes,
+  type Theme,
+} from "./image/design-tokens";
+import { DEFAULT_THEME_FILES, findThemeFile, loadThemeFile } from "./image/theme-file";
 import { displayInTerminal, getTerminalName } from "./terminal/display";
 import { copyImageToClipboard } from "./clipboard";
-import { isWrappedAvailable } from "./utils/dates";
-import { formatNumber } from "./utils/format";
-import type { OpenCodeStats } from "./types";
+import { formatStatsJson } from "./export/json";
+import { createZip } from "./export/zip";
+import { isRangeAvailable, parseDateRange, shiftRangeToYear, validateDayBoundary } from "./utils/dates";
+import {
+  formatChurn,
+  formatCost,
+  formatDuration,
+  formatHour,
+  formatLatency,
+  formatMonth,
+  formatNumber,
+  formatPercent,
+} from "./utils/format";
+import type { ComparedMetric, DateRange, DayBoundary, OpenCodeStats, StatsComparison } from "./types";
 
 const VERSION = "1.0.0";
 
+const ExitCode = {
+  Success: 0,
+  Error: 1,
+  Usage: 2,
+  NoData: 3,
+  Unavailable: 4,
+} as const;
+
 function printHelp() {
   console.log(`
 oc-wrapped v${VERSION}
 
-Generate your OpenCode year in review stats card.
+Generate your OpenCode year (or any date range) in review stats card.
 
 USAGE:
   oc-wrapped [OPTIONS]
+  oc-wrapped stats [OPTIONS]    Print stats as JSON (same as --format json)
 
 OPTIONS:
-  --year <YYYY>    Generate wrapped for a specific year (default: current year)
-  --help, -h       Show this help message
-  --version, -v    Show version number
+  --year <YYYY>          Generate wrapped for a specific year (default: current year)
+  --month <YYYY-MM>      Generate wrapped for a month
+  --quarter <YYYY-Qn>    Generate wrapped for a quarter
+  --week <YYYY-Www>      Generate wrapped for an ISO week
+  --last <N>d|<N>w       Generate wrapped for the last N days or weeks
+  --from <YYYY-MM-DD>    Generate wrapped from a date (inclusive)
+  --to <YYYY-MM-DD>      ...up to a date (inclusive, default: today)
+  --timezone <IANA>      Time zone used to bucket activity into days (default: system)
+  --day-start <hour>     Hour (0-23) a day starts at, e.g. 4 counts late nights toward
+                         the previous day (default: 0)
+  --format <png|json>    Output an image card (default) or machine-readable JSON stats
+  --output, -o <path>    Save the image (or JSON) to <path> without prompting
+  --data-dir <path>      Read OpenCode data from <path>; repeat to merge several
+                         (default: $${DATA_DIR_ENV} or $XDG_DATA_HOME/opencode)
+  --project <path>       Scope the wrapped to the repository containing <path>
+  --compare [YYYY]       Show growth since the same period in <YYYY>
+                         (default: the year before)
+  --theme <name>         Color theme: ${Object.keys(themes).join(", ")}
+                         (default: ${DEFAULT_THEME})
+  --theme-file <path>    Override theme colors, font sizes and spacing from a JSON or
+                         TOML file (default: ${DEFAULT_THEME_FILES.join(" or ") || "none"}, if present)
+  --size <preset>        Image size, laid out for where it's shared: ${Object.keys(canvasSizes).join(", ")}
+                         (default: ${DEFAULT_CANVAS_SIZE})
+  --slides               Render a carousel of story slides instead of one card, saved as
+                         numbered PNGs, or a zip when --output ends in .zip
+  --animate              Animate the card: the heatmap fills in and the counters tick up,
+                         saved as an APNG, or a GIF when --output ends in .gif
+  --reliability          Add a panel with finish reasons and error rates per provider
+  --rebuild-cache        Re-read every message instead of using the cached index
+  --offline              Don't use the network: price models from the cached or
+                         bundled models.dev catalog and skip sharing
+  --no-clipboard         Don't copy the image to the clipboard
+  --share                Open X to share the wrapped, without asking
+  --no-share             Don't offer to share on X
+  --yes                  Run without prompts (implied when not attached to a TTY): save the
+                         image, and only share with --share
+  --help, -h             Show this help message
+  --version, -v          Show version number
+
+EXIT CODES:
+  0  Success
+  1  Failed to collect stats, generate or save the image
+  2  Invalid arguments
+  3  No OpenCode data or activity found
+  4  Wrapped not available yet for the requested year or range
 
 EXAMPLES:
-  oc-wrapped              # Generate current year wrapped
-  oc-wrapped --year 2025  # Generate 2025 wrapped
+  oc-wrapped                                # Generate current year wrapped
+  oc-wrapped --year 2025                    # Generate 2025 wrapped
+  oc-wrapped --quarter 2026-Q3              # Generate a quarterly wrapped
+  oc-wrapped --last 30d                     # Generate wrapped for the last 30 days
+  oc-wrapped --project ~/code/api           # Generate wrapped for one repository
+  oc-wrapped --year 2025 --compare          # Compare 2025 with 2024
+  oc-wrapped --theme light                  # White card for light feeds
+  oc-wrapped --size story                   # Vertical card for Instagram stories
+  oc-wrapped --slides -o slides.zip         # Story carousel, one slide per stat
+  oc-wrapped --animate --size og -o me.gif  # Animated link preview
+  oc-wrapped --yes --output ./me.png        # Non-interactive, e.g. from cron or CI
+  oc-wrapped stats --year 2025 > 2025.json  # Export stats for dashboards
 `);
 }
 
 async function main() {
   // Parse command line arguments
-  const { values } = parseArgs({
-    args: process.argv.slice(2),
-    options: {
-      year: { type: "string", short: "y" },
-      help: { type: "boolean", short: "h" },
-      version: { type: "boolean", short: "v" },
-    },
-    strict: true,
-    allowPositionals: false,
-  });
+  let values;
+  let positionals;
+  try {
+    ({ values, positionals } = parseArgs({
+      args: expandBareCompare(process.argv.slice(2)),
+      options: {
+        year: { type: "string", short: "y" },
+        month: { type: "string" },
+        quarter: { type: "string" },
+        week: { type: "string" },
+        last: { type: "string" },
+        from: { type: "string" },
+        to: { type: "string" },
+        timezone: { type: "string" },
+        "day-start": { type: "string" },
+        format: { type: "string", short: "f" },
+        output: { type: "string", short: "o" },
+        "data-dir": { type: "string", multiple: true },
+        project: { type: "string" },
+        compare: { type: "string" },
+        theme: { type: "string" },
+        "theme-file": { type: "string" },
+        size: { type: "string" },
+        slides: { type: "boolean" },
+        animate: { type: "boolean" },
+        reliability: { type: "boolean" },
+        "rebuild-cache": { type: "boolean" },
+        offline: { type: "boolean" },
+        "no-clipboard": { type: "boolean" },
+        share: { type: "boolean" },
+        "no-share": { type: "boolean" },
+        yes: { type: "boolean" },
+        help: { type: "boolean", short: "h" },
+        version: { type: "boolean", short: "v" },
+      },
+      strict: true,
+      allowPositionals: true,
+    }));
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : String(error));
+    console.error("Run oc-wrapped --help for usage.");
+    process.exit(ExitCode.Usage);
+  }
 
   if (values.help) {
     printHelp();
-    process.exit(0);
+    process.exit(ExitCode.Success);
   }
 
   if (values.version) {
     console.log(`oc-wrapped v${VERSION}`);
-    process.exit(0);
+    process.exit(ExitCode.Success);
   }
 
-  p.intro("opencode wrapped");
+  const [command, ...extraPositionals] = positionals;
+  if ((command !== undefined && command !== "stats") || extraPositionals.length > 0) {
+    console.error(`Unknown command: ${positionals.join(" ")}`);
+    console.error("Run oc-wrapped --help for usage.");
+    process.exit(ExitCode.Usage);
+  }
+
+  const format = values.format ?? (command === "stats" ? "json" : "png");
+  if (format !== "png" && format !== "json") {
+    console.error(`Invalid format: ${format} (expected png or json)`);
+    process.exit(ExitCode.Usage);
+  }
 
-  const requestedYear = values.year ? parseInt(values.year, 10) : new Date().getFullYear();
+  const dayBoundary: DayBoundary = {
+    timeZone: values.timezone,
+    // Non-numeric input becomes NaN and is rejected with the other invalid hours
+    dayStartHour: values["day-start"] !== undefined ? Number(values["day-start"] || NaN) : 0,
+  };
+  let range: DateRange;
+  try {
+    validateDayBoundary(dayBoundary);
+    range = parseDateRange(values, dayBoundary);
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : String(error));
+    process.exit(ExitCode.Usage);
+  }
+
+  const theme = values.theme;
+  if (theme !== undefined && !isThemeName(theme)) {
+    console.error(`Unknown theme: ${theme} (expected one of ${Object.keys(themes).join(", ")})`);
+    process.exit(ExitCode.Usage);
+  }
 
-  const availability = isWrappedAvailable(requestedYear);
+  const size = values.size ?? DEFAULT_CANVAS_SIZE;
+  if (!isCanvasSize(size)) {
+    console.error(`Unknown size: ${size} (expected one of ${Object.keys(canvasSizes).join(", ")})`);
+    process.exit(ExitCode.Usage);
+  }
+  if (values.reliability && size !== "card") {
+    console.error(`--reliability only fits on the full card, not --size ${size}`);
+    process.exit(ExitCode.Usage);
+  }
+  if (values.slides && (format === "json" || values.size !== undefined || values.reliability)) {
+    console.error("--slides can't be combined with --format json, --size or --reliability");
+    process.exit(ExitCode.Usage);
+  }
+  if (values.animate && (format === "json" || values.slides)) {
+    console.error("--animate can't be combined with --format json or --slides");
+    process.exit(ExitCode.Usage);
+  }
+  if (values.share && (values["no-share"] || values.offline)) {
+    console.error("--share can't be combined with --no-share or --offline");
+    process.exit(ExitCode.Usage);
+  }
+
+  let compareRange: DateRange | undefined;
+  if (values.compare !== undefined) {
+    if (format === "json") {
+      console.error("--compare is only supported for the image card");
+      process.exit(ExitCode.Usage);
+    }
+    if (values.compare && !/^\d{4}$/.test(values.compare)) {
+      console.error(`Invalid year for --compare: ${values.compare}`);
+      process.exit(ExitCode.Usage);
+    }
+    const rangeYear = Number(range.to.slice(0, 4));
+    const compareYear = values.compare ? Number(values.compare) : rangeYear - 1;
+    if (compareYear === rangeYear) {
+      console.error(`--compare ${compareYear} is the year being wrapped, pick another year`);
+      process.exit(ExitCode.Usage);
+    }
+    compareRange = shiftRangeToYear(range, compareYear);
+  }
+
+  const dataPaths = await resolveDataPaths(values["data-dir"]);
+  const statsOptions = {
+    dataPaths,
+    rebuildCache: values["rebuild-cache"],
+    offline: values.offline,
+    project: values.project,
+    dayBoundary,
+  };
+
+  if (format === "json") {
+    await exportStatsJson(range, statsOptions, values.output);
+    return;
+  }
+
+  const themeFile = values["theme-file"] ?? (await findThemeFile());
+  let resolvedTheme: Theme;
+  try {
+    resolvedTheme = themeFile ? await loadThemeFile(resolve(themeFile), theme) : getBuiltInTheme(theme ?? DEFAULT_THEME);
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : String(error));
+    process.exit(ExitCode.Usage);
+  }
+
+  // Prompts need a terminal on both ends; anything else (cron, CI, pipes) runs unattended
+  const isTTY = Boolean(process.stdout.isTTY && process.stdin.isTTY);
+  const interactive = isTTY && !values.yes;
+
+  p.intro("opencode wrapped");
+
+  const availability = isRangeAvailable(range, dayBoundary);
   if (!availability.available) {
     if (Array.isArray(availability.message)) {
       availability.message.forEach((line) => p.log.warn(line));
@@ -72,102 +297,200 @@ async function main() {
       p.log.warn(availability.message || "Wrapped not available yet.");
     }
     p.cancel();
-    process.exit(0);
+    process.exit(ExitCode.Unavailable);
   }
 
-  const dataExists = await checkOpenCodeDataExists();
+  const dataExists = await checkOpenCodeDataExists(dataPaths);
   if (!dataExists) {
-    p.cancel(`OpenCode data not found in ${xdgData}/opencode\n\nMake sure you have used OpenCode at least once.`);
-    process.exit(0);
+    p.cancel(`OpenCode data not found in ${dataPaths.join(", ")}\n\nMake sure you have used OpenCode at least once.`);
+    process.exit(ExitCode.NoData);
   }
 
-  const spinner = p.spinner();
+  const spinner = isTTY ? p.spinner() : createLogSpinner();
   spinner.start("Scanning your OpenCode history...");
 
   let stats;
+  let previousStats;
   try {
-    stats = await calculateStats(requestedYear);
+    stats = await calculateStats(range, statsOptions);
+    // One after the other, both runs update the same on-disk cache
+    previousStats = compareRange && (await calculateStats(compareRange, statsOptions));
   } catch (error) {
     spinner.stop("Failed to collect stats");
     p.cancel(`Error: ${error}`);
-    process.exit(1);
+    process.exit(ExitCode.Error);
   }
 
   if (stats.totalSessions === 0) {
     spinner.stop("No data found");
-    p.cancel(`No OpenCode activity found for ${requestedYear}`);
-    process.exit(0);
+    p.cancel(`No OpenCode activity found for ${describeScope(stats)}`);
+    process.exit(ExitCode.NoData);
   }
 
   spinner.stop("Found your stats!");
 
+  let comparison: StatsComparison | undefined;
+  if (previousStats) {
+    if (previousStats.totalSessions > 0) {
+      comparison = compareStats(stats, previousStats);
+    } else {
+      p.log.warn(`No OpenCode activity found for ${describeScope(previousStats)}, skipping the comparison`);
+    }
+  }
+
   // Display summary
+  const achievements = evaluateAchievements(stats);
+
   const summaryLines = [
     `Sessions:      ${formatNumber(stats.totalSessions)}`,
     `Messages:      ${formatNumber(stats.totalMessages)}`,
     `Total Tokens:  ${formatNumber(stats.totalTokens)}`,
+    stats.tokens.cacheRead + stats.tokens.cacheWrite > 0 &&
+      `Cache:         ${formatNumber(stats.tokens.cacheRead)} read, ${formatNumber(stats.tokens.cacheWrite)} written (${Math.round(stats.cacheHitRatio * 100)}% hit rate)`,
     `Projects:      ${formatNumber(stats.totalProjects)}`,
+    stats.sessionTime.activeTime > 0 &&
+      `Time with AI:  ${formatDuration(stats.sessionTime.activeTime)} active, median session ${formatDuration(stats.sessionTime.medianDuration)}`,
+    stats.sessionTime.longestSession &&
+      `Longest:       ${stats.sessionTime.longestSession.title} (${formatDuration(stats.sessionTime.longestSession.duration)})`,
+    stats.codeChurn.additions + stats.codeChurn.deletions > 0 &&
+      `Lines Changed: ${formatChurn(stats.codeChurn)} in ${formatNumber(stats.codeChurn.files)} files`,
+    stats.biggestSession && `Top Session:   ${stats.biggestSession.title} (${formatChurn(stats.biggestSession.churn)})`,
     `Streak:        ${stats.maxStreak} days`,
     stats.hasZenUsage && `Zen Cost:      ${stats.totalCost.toFixed(2)}$`,
+    (stats.recordedCost > 0 || stats.estimatedCost > 0) &&
+      `Cost:          ${formatCost(stats.recordedCost)} recorded, ~${formatCost(stats.estimatedCost)} estimated`,
+    stats.fastestModel &&
+      `Fastest Model: ${stats.fastestModel.name} (${Math.round(stats.fastestModel.outputTokensPerSecond)} tok/s, p50 ${formatLatency(stats.fastestModel.latency.p50)})`,
+    stats.agents.length > 0 &&
+      `Top Agents:    ${stats.agents
+        .slice(0, 3)
+        .map((a) => `${a.name} ${Math.round(a.percentage)}%`)
+        .join(", ")}`,
+    stats.modes.length > 0 &&
+      `Top Modes:     ${stats.modes
+        .slice(0, 3)
+        .map((m) => `${m.name} ${Math.round(m.percentage)}%`)
+        .join(", ")}`,
+    stats.topCustomAgent &&
+      `Custom Agent:  ${stats.topCustomAgent.name} (${formatNumber(stats.topCustomAgent.count)} messages)`,
+    stats.reliability.messages > 0 &&
+      `Reliability:   ${formatPercent(stats.reliability.errorRate)} errors, ${formatPercent(stats.reliability.abortRate)} aborted`,
+    stats.tools.length > 0 &&
+      `Top Tools:     ${stats.tools
+        .slice(0, 3)
+        .map((t) => `${t.name} ${formatNumber(t.calls)}`)
+        .join(", ")}`,
+    stats.languages.length > 0 && `Top Language:  ${stats.languages[0].name}`,
+    !stats.project && stats.projects.length > 0 && `Top Project:   ${stats.projects[0].name}`,
+    achievements.length > 0 && `Badges:        ${achievements.map((a) => `${a.name} (${a.tier})`).join(", ")}`,
     stats.mostActiveDay && `Most Active:   ${stats.mostActiveDay.formattedDate}`,
+    `Peak Hour:     ${formatHour(stats.hourlyActivity.peakHour)} (${stats.hourlyActivity.chronotypeLabel})`,
   ];
 
-  p.note(summaryLines.join("\n"), `Your ${requestedYear} in OpenCode`);
-
-  // Generate image
-  spinner.start("Generating your wrapped image...");
+  p.note(summaryLines.join("\n"), `Your ${describeScope(stats)} in OpenCode`);
 
-  let image: { fullSize: Buffer; displaySize: Buffer };
-  try {
-    image = await generateImage(stats);
-  } catch (error) {
-    spinner.stop("Failed to generate image");
-    p.cancel(`Error generating image: ${error}`);
-    process.exit(1);
+  if (stats.monthlyActivity.length > 1) {
+    p.note(formatMonthTable(stats.monthlyActivity), "Month by month");
   }
 
-  spinner.stop("Image generated!");
-
-  const displayed = await displayInTerminal(image.displaySize);
-  if (!displayed) {
-    p.log.info(`Terminal (${getTerminalName()}) doesn't support inline images`);
+  if (comparison) {
+    const { deltas } = comparison;
+    const comparisonLines = (Object.keys(deltas) as ComparedMetric[])
+      .filter((key) => deltas[key].previous > 0 || deltas[key].current > 0)
+      .map((key) => `${`${COMPARED_METRICS[key].label}:`.padEnd(15)}${describeDelta(key, deltas[key])}`);
+    p.note(comparisonLines.join("\n"), `Compared to ${comparison.range.label}`);
   }
 
-  const filename = `oc-wrapped-${requestedYear}.png`;
-  const { success, error } = await copyImageToClipboard(image.fullSize, filename);
+  const fileBase = stats.project
+    ? `oc-wrapped-${range.slug}-${toFileSlug(stats.project.name)}`
+    : `oc-wrapped-${range.slug}`;
 
-  if (success) {
-    p.log.success("Automatically copied image to clipboard!");
+  let exitCode: number = ExitCode.Success;
+
+  if (values.slides) {
+    exitCode = await exportSlides(stats, { comparison, theme: resolvedTheme }, spinner, {
+      output: values.output,
+      defaultName: `${fileBase}-slides`,
+      isTTY,
+      interactive,
+    });
+  } else if (values.animate) {
+    exitCode = await exportAnimation(stats, { reliability: values.reliability, comparison, size, theme: resolvedTheme }, spinner, {
+      output: values.output,
+      defaultName: size === DEFAULT_CANVAS_SIZE ? `${fileBase}-animated.png` : `${fileBase}-${size}-animated.png`,
+      isTTY,
+      interactive,
+    });
   } else {
-    p.log.warn(`Clipboard unavailable: ${error}`);
-    p.log.info("You can save the image to disk instead.");
-  }
+    // Generate image
+    spinner.start("Generating your wrapped image...");
 
-  const defaultPath = join(process.env.HOME || "~", filename);
+    let image: { fullSize: Buffer; displaySize: Buffer };
+    try {
+      image = await generateImage(stats, { reliability: values.reliability, comparison, size, theme: resolvedTheme });
+    } catch (error) {
+      spinner.stop("Failed to generate image");
+      p.cancel(`Error generating image: ${error}`);
+      process.exit(ExitCode.Error);
+    }
 
-  const shouldSave = await p.confirm({
-    message: `Save image to ~/${filename}?`,
-    initialValue: true,
-  });
+    spinner.stop("Image generated!");
 
-  if (p.isCancel(shouldSave)) {
-    p.outro("Cancelled");
-    process.exit(0);
-  }
+    if (isTTY) {
+      const displayed = await displayInTerminal(image.displaySize);
+      if (!displayed) {
+        p.log.info(`Terminal (${getTerminalName()}) doesn't support inline images`);
+      }
+    }
 
-  if (shouldSave) {
-    try {
-      await Bun.write(defaultPath, image.fullSize);
-      p.log.success(`Saved to ${defaultPath}`);
-    } catch (error) {
-      p.log.error(`Failed to save: ${error}`);
+    const filename = size === DEFAULT_CANVAS_SIZE ? `${fileBase}.png` : `${fileBase}-${size}.png`;
+
+    // Clipboard needs a desktop session, so it's only attempted when attached to a terminal
+    if (isTTY && !values["no-clipboard"]) {
+      const { success, error } = await copyImageToClipboard(image.fullSize, filename);
+
+      if (success) {
+        p.log.success("Automatically copied image to clipboard!");
+      } else {
+        p.log.warn(`Clipboard unavailable: ${error}`);
+        p.log.info("You can save the image to disk instead.");
+      }
+    }
+
+    const outputPath = values.output ? resolve(values.output) : join(process.env.HOME || "~", filename);
+
+    let shouldSave: boolean | symbol = true;
+    if (interactive && !values.output) {
+      shouldSave = await p.confirm({
+        message: `Save image to ~/${filename}?`,
+        initialValue: true,
+      });
+    }
+
+    if (p.isCancel(shouldSave)) {
+      p.outro("Cancelled");
+      process.exit(ExitCode.Success);
+    }
+
+    if (shouldSave) {
+      try {
+        await Bun.write(outputPath, image.fullSize);
+        p.log.success(`Saved to ${outputPath}`);
+      } catch (error) {
+        p.log.error(`Failed to save: ${error}`);
+        exitCode = ExitCode.Error;
+      }
     }
   }
 
-  const shouldShare = await p.confirm({
-    message: "Share on X (Twitter)? Don't forget to attach your image!",
-    initialValue: true,
-  });
+  // Opening a browser is only done when asked for: --yes and non-interactive runs never share on their own
+  let shouldShare: boolean | symbol = Boolean(values.share);
+  if (!values.share && interactive && !values["no-share"] && !values.offline) {
+    shouldShare = await p.confirm({
+      message: "Share on X (Twitter)? Don't forget to attach your image!",
+      initialValue: true,
+    });
+  }
 
   if (!p.isCancel(shouldShare) && shouldShare) {
     const tweetUrl = generateTweetUrl(stats);
@@ -181,12 +504,243 @@ async function main() {
   }
 
   p.outro("Share your wrapped!");
-  process.exit(0);
+  process.exit(exitCode);
+}
+
+/** Fixed-width table of sessions, messages, tokens and estimated cost per month, for the terminal summary */
+function formatMonthTable(months: OpenCodeStats["monthlyActivity"]): string {
+  const row = (cells: string[]) => cells[0].padEnd(10) + cells.slice(1).map((cell) => cell.padStart(11)).join("");
+  return [
+    row(["Month", "Sessions", "Messages", "Tokens", "Est. Cost"]),
+    ...months.map((m) =>
+      row([
+        formatMonth(m.month),
+        formatNumber(m.sessions),
+        formatNumber(m.messages),
+        formatNumber(m.tokens),
+        formatCost(m.estimatedCost),
+      ])
+    ),
+  ].join("\n");
+}
+
+/** parseArgs has no optional values, so a bare `--compare` becomes `--compare=` (the year before) */
+function expandBareCompare(args: string[]): string[] {
+  return args.map((arg, i) => (arg === "--compare" && !/^\d{4}$/.test(args[i + 1] ?? "") ? "--compare=" : arg));
+}
+
+/** "2025", or "2025 in my-service" when scoped to a project */
+function describeScope(stats: OpenCodeStats): string {
+  return stats.project ? `${stats.range.label} in ${stats.project.name}` : stats.range.label;
+}
+
+function toFileSlug(name: string): string {
+  return name.replace(/[^\w.-]+/g, "-").replace(/^-+|-+$/g, "") || "project";
+}
+
+/**
+ * JSON mode keeps stdout clean for piping: the document is the only thing written there,
+ * diagnostics go to stderr.
+ */
+async function exportStatsJson(
+  range: DateRange,
+  statsOptions: StatsOptions & { dataPaths: string[]; dayBoundary: DayBoundary },
+  output?: string
+) {
+  const availability = isRangeAvailable(range, statsOptions.dayBoundary);
+  if (!availability.available) {
+    const message = availability.message || "Wrapped not available yet.";
+    console.error(Array.isArray(message) ? message.join("\n") : message);
+    process.exit(ExitCode.Unavailable);
+  }
+
+  const { dataPaths } = statsOptions;
+  if (!(await checkOpenCodeDataExists(dataPaths))) {
+    console.error(`OpenCode data not found in ${dataPaths.join(", ")}`);
+    process.exit(ExitCode.NoData);
+  }
+
+  let stats;
+  try {
+    stats = await calculateStats(range, statsOptions);
+  } catch (error) {
+    console.error(`Failed to collect stats: ${error}`);
+    process.exit(ExitCode.Error);
+  }
+
+  if (stats.totalSessions === 0) {
+    console.error(`No OpenCode activity found for ${describeScope(stats)}`);
+    process.exit(ExitCode.NoData);
+  }
+
+  const json = formatStatsJson(stats, VERSION);
+
+  if (!output) {
+    process.stdout.write(json);
+    process.exit(ExitCode.Success);
+  }
+
+  const outputPath = resolve(output);
+  try {
+    await Bun.write(outputPath, json);
+  } catch (error) {
+    console.error(`Failed to save: ${error}`);
+    process.exit(ExitCode.Error);
+  }
+  console.error(`Saved to ${outputPath}`);
+  process.exit(ExitCode.Success);
+}
+
+interface SlidesExportOptions {
+  /** A .zip file, or a directory for numbered PNGs */
+  output?: string;
+  /** Directory name in $HOME when there's no --output */
+  defaultName: string;
+  isTTY: boolean;
+  interactive: boolean;
+}
+
+/** Render the carousel and save it as numbered PNGs, or as one zip when the output ends in .zip */
+async function exportSlides(
+  stats: OpenCodeStats,
+  options: TemplateOptions,
+  spinner: ReturnType<typeof p.spinner>,
+  { output, defaultName, isTTY, interactive }: SlidesExportOptions
+): Promise<number> {
+  spinner.start(`Generating ${SLIDES.length} slides...`);
+
+  let slides: GeneratedSlide[];
+  try {
+    slides = await generateSlides(stats, options);
+  } catch (error) {
+    spinner.stop("Failed to generate slides");
+    p.cancel(`Error generating slides: ${error}`);
+    process.exit(ExitCode.Error);
+  }
+
+  spinner.stop(`${slides.length} slides generated!`);
+
+  if (isTTY) {
+    const displayed = await displayInTerminal(slides[0].displaySize);
+    if (!displayed) {
+      p.log.info(`Terminal (${getTerminalName()}) doesn't support inline images`);
+    }
+  }
+
+  const outputPath = output ? resolve(output) : join(process.env.HOME || "~", defaultName);
+  const asZip = extname(outputPath).toLowerCase() === ".zip";
+
+  let shouldSave: boolean | symbol = true;
+  if (interactive && !output) {
+    shouldSave = await p.confirm({
+      message: `Save slides to ~/${defaultName}/?`,
+      initialValue: true,
+    });
+  }
+
+  if (p.isCancel(shouldSave)) {
+    p.outro("Cancelled");
+    process.exit(ExitCode.Success);
+  }
+
+  if (!shouldSave) return ExitCode.Success;
+
+  try {
+    if (asZip) {
+      await Bun.write(outputPath, createZip(slides.map((slide) => ({ name: slide.filename, data: slide.fullSize }))));
+    } else {
+      await mkdir(outputPath, { recursive: true });
+      await Promise.all(slides.map((slide) => Bun.write(join(outputPath, slide.filename), slide.fullSize)));
+    }
+    p.log.success(`Saved ${slides.length} slides to ${outputPath}`);
+    return ExitCode.Success;
+  } catch (error) {
+    p.log.error(`Failed to save: ${error}`);
+    return ExitCode.Error;
+  }
+}
+
+interface AnimationExportOptions {
+  /** A .gif file gets a GIF, anything else an APNG */
+  output?: string;
+  /** File name in $HOME when there's no --output */
+  defaultName: string;
+  isTTY: boolean;
+  interactive: boolean;
+}
+
+/** Render the animated card and save it. There's no clipboard copy, pasting would only keep a still frame */
+async function exportAnimation(
+  stats: OpenCodeStats,
+  options: TemplateOptions,
+  spinner: ReturnType<typeof p.spinner>,
+  { output, defaultName, isTTY, interactive }: AnimationExportOptions
+): Promise<number> {
+  const outputPath = output ? resolve(output) : join(process.env.HOME || "~", defaultName);
+  const format = getAnimationFormat(outputPath);
+
+  spinner.start("Generating your animated wrapped...");
+
+  let animation: GeneratedAnimation;
+  try {
+    animation = await generateAnimation(stats, options, format, (frame, frameCount) =>
+      spinner.message(`Rendering frame ${frame} of ${frameCount}...`)
+    );
+  } catch (error) {
+    spinner.stop("Failed to generate animation");
+    p.cancel(`Error generating animation: ${error}`);
+    process.exit(ExitCode.Error);
+  }
+
+  spinner.stop(`Animated ${format === "gif" ? "GIF" : "PNG"} generated!`);
+
+  // Terminals only show stills, so preview the finished card
+  if (isTTY) {
+    const displayed = await displayInTerminal(animation.displaySize);
+    if (!displayed) {
+      p.log.info(`Terminal (${getTerminalName()}) doesn't support inline images`);
+    }
+  }
+
+  let shouldSave: boolean | symbol = true;
+  if (interactive && !output) {
+    shouldSave = await p.confirm({
+      message: `Save animation to ~/${defaultName}?`,
+      initialValue: true,
+    });
+  }
+
+  if (p.isCancel(shouldSave)) {
+    p.outro("Cancelled");
+    process.exit(ExitCode.Success);
+  }
+
+  if (!shouldSave) return ExitCode.Success;
+
+  try {
+    await Bun.write(outputPath, animation.animation);
+    p.log.success(`Saved to ${outputPath}`);
+    return ExitCode.Success;
+  } catch (error) {
+    p.log.error(`Failed to save: ${error}`);
+    return ExitCode.Error;
+  }
+}
+
+/** Spinner stand-in for non-TTY output: animation frames would only litter logs, so just print the outcome */
+function createLogSpinner(): ReturnType<typeof p.spinner> {
+  return {
+    start: () => {},
+    message: () => {},
+    stop: (msg?: string) => {
+      if (msg) p.log.step(msg);
+    },
+  };
 }
 
 function generateTweetUrl(stats: OpenCodeStats): string {
   const text = [
-    `my ${stats.year} opencode wrapped:`,
+    `my ${stats.range.label} opencode wrapped:`,
     ``,
     `${formatNumber(stats.totalSessions)} sessions`,
     `${formatNumber(stats.totalMessages)} messages`,
@@ -227,5 +781,5 @@ async function openUrl(url: string): Promise<boolean> {
 
 main().catch((error) => {
   console.error("Unexpected error:", error);
-  process.exit(1);
+  process.exit(ExitCode.Error);
 });
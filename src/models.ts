@@ -1,9 +1,33 @@
+import { join } from "node:path";
+import { xdgCache } from "xdg-basedir";
+import type { MessageData } from "./types";
+import bundledCatalog from "../assets/models-snapshot.json";
+
 interface ModelInfo {
   id: string;
   name: string;
   provider: string;
 }
 
+/** USD per million tokens, as published by models.dev */
+export interface ModelPricing {
+  input: number;
+  output: number;
+  reasoning?: number;
+  cacheRead?: number;
+  cacheWrite?: number;
+}
+
+interface ModelsDevCost {
+  input?: number;
+  output?: number;
+  reasoning?: number;
+  cache_read?: number;
+  cache_write?: number;
+}
+
+const COST_KEYS = ["input", "output", "reasoning", "cache_read", "cache_write"] as const;
+
 interface ProviderInfo {
   id: string;
   name: string;
@@ -12,63 +36,186 @@ interface ProviderInfo {
 interface ModelsDevData {
   models: Record<string, ModelInfo>;
   providers: Record<string, ProviderInfo>;
+  pricing: Record<string, ModelPricing>; // "providerId/modelId" -> pricing
+}
+
+const MODELS_DEV_URL = "https://models.dev/api.json";
+const FETCH_TIMEOUT_MS = 5000;
+
+/** How long a downloaded catalog is used before refetching */
+const CATALOG_TTL_MS = 24 * 60 * 60 * 1000;
+
+const CATALOG_CACHE_PATH = xdgCache ? join(xdgCache, "oc-wrapped", "models.json") : null;
+
+/** models.dev api.json trimmed to the fields we use; also the format of the cache and bundled snapshot */
+export type ModelsDevCatalog = Record<
+  string,
+  {
+    name?: string;
+    models?: Record<string, { name?: string; cost?: ModelsDevCost }>;
+  }
+>;
+
+interface CatalogCacheFile {
+  fetchedAt: number;
+  catalog: ModelsDevCatalog;
 }
 
 // Cache for the fetched data
 let cachedData: ModelsDevData | null = null;
 
-export async function fetchModelsData(): Promise<ModelsDevData> {
+// Remote provider logos are skipped offline so rendering never touches the network
+let offlineMode = false;
+
+/**
+ * Load the models.dev catalog: a fresh disk cache, then the network, then a stale disk cache,
+ * then the snapshot bundled with the package. With `offline` the network is never used.
+ */
+export async function fetchModelsData({ offline = false }: { offline?: boolean } = {}): Promise<ModelsDevData> {
   if (cachedData) {
     return cachedData;
   }
 
-  try {
-    const response = await fetch("https://models.dev/api.json", {
-      signal: AbortSignal.timeout(5000),
-    });
+  offlineMode = offline;
+
+  const cached = await readCatalogCache();
+  if (cached && (offline || Date.now() - cached.fetchedAt < CATALOG_TTL_MS)) {
+    cachedData = parseCatalog(cached.catalog);
+    return cachedData;
+  }
 
-    if (!response.ok) {
-      throw new Error(`HTTP ${response.status}`);
+  if (!offline) {
+    try {
+      const catalog = await downloadCatalog();
+      await writeCatalogCache(catalog);
+      cachedData = parseCatalog(catalog);
+      return cachedData;
+    } catch {
+      console.warn(`Failed to fetch models.dev data, using ${cached ? "cached" : "bundled"} catalog`);
     }
+  }
 
-    const data = await response.json();
+  cachedData = parseCatalog(cached?.catalog ?? (bundledCatalog as ModelsDevCatalog));
+  return cachedData;
+}
 
-    const models: Record<string, ModelInfo> = {};
-    const providers: Record<string, ProviderInfo> = {};
+/** Fetch models.dev and trim it to a ModelsDevCatalog */
+export async function downloadCatalog(): Promise<ModelsDevCatalog> {
+  const response = await fetch(MODELS_DEV_URL, {
+    signal: AbortSignal.timeout(FETCH_TIMEOUT_MS),
+  });
 
-    if (data && typeof data === "object") {
-      for (const [providerId, providerData] of Object.entries(data)) {
-        if (!providerData || typeof providerData !== "object") continue;
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status}`);
+  }
 
-        const pd = providerData as { name?: string; models?: Record<string, { name?: string }> };
+  return trimCatalog(await response.json());
+}
 
-        if (pd.name) {
-          providers[providerId] = {
-            id: providerId,
-            name: pd.name,
-          };
-        }
+function trimCatalog(data: unknown): ModelsDevCatalog {
+  const catalog: ModelsDevCatalog = {};
+  if (!data || typeof data !== "object") return catalog;
+
+  for (const [providerId, providerData] of Object.entries(data)) {
+    if (!providerData || typeof providerData !== "object") continue;
+
+    const pd = providerData as ModelsDevCatalog[string];
+    const models: NonNullable<ModelsDevCatalog[string]["models"]> = {};
+
+    if (pd.models && typeof pd.models === "object") {
+      for (const [modelId, modelData] of Object.entries(pd.models)) {
+        if (!modelData || typeof modelData !== "object") continue;
+        models[modelId] = { name: modelData.name, cost: trimCost(modelData.cost) };
+      }
+    }
+
+    catalog[providerId] = { name: pd.name, models };
+  }
+
+  return catalog;
+}
+
+/** Only the flat per-token rates; tiered and long-context pricing isn't used */
+function trimCost(cost: unknown): ModelsDevCost | undefined {
+  if (!cost || typeof cost !== "object") return undefined;
+
+  const trimmed: ModelsDevCost = {};
+  for (const key of COST_KEYS) {
+    const value = (cost as Record<string, unknown>)[key];
+    if (typeof value === "number") trimmed[key] = value;
+  }
+  return trimmed;
+}
+
+function parseCatalog(data: ModelsDevCatalog): ModelsDevData {
+  const models: Record<string, ModelInfo> = {};
+  const providers: Record<string, ProviderInfo> = {};
+  const pricing: Record<string, ModelPricing> = {};
+
+  if (data && typeof data === "object") {
+    for (const [providerId, providerData] of Object.entries(data)) {
+      if (!providerData || typeof providerData !== "object") continue;
+
+      const pd = providerData;
+
+      if (pd.name) {
+        providers[providerId] = {
+          id: providerId,
+          name: pd.name,
+        };
+      }
+
+      if (pd.models && typeof pd.models === "object") {
+        for (const [modelId, modelData] of Object.entries(pd.models)) {
+          if (modelData && typeof modelData === "object" && modelData.name) {
+            models[modelId] = {
+              id: modelId,
+              name: modelData.name,
+              provider: providerId,
+            };
+          }
 
-        if (pd.models && typeof pd.models === "object") {
-          for (const [modelId, modelData] of Object.entries(pd.models)) {
-            if (modelData && typeof modelData === "object" && modelData.name) {
-              models[modelId] = {
-                id: modelId,
-                name: modelData.name,
-                provider: providerId,
-              };
-            }
+          const cost = modelData?.cost;
+          if (cost && typeof cost.input === "number" && typeof cost.output === "number") {
+            pricing[`${providerId}/${modelId}`] = {
+              input: cost.input,
+              output: cost.output,
+              reasoning: cost.reasoning,
+              cacheRead: cost.cache_read,
+              cacheWrite: cost.cache_write,
+            };
           }
         }
       }
     }
+  }
 
-    cachedData = { models, providers };
-    return cachedData;
-  } catch (error) {
-    console.warn("Failed to fetch models.dev data, using fallbacks");
-    cachedData = { models: {}, providers: {} };
-    return cachedData;
+  return { models, providers, pricing };
+}
+
+async function readCatalogCache(): Promise<CatalogCacheFile | null> {
+  if (!CATALOG_CACHE_PATH) return null;
+
+  try {
+    const file = (await Bun.file(CATALOG_CACHE_PATH).json()) as CatalogCacheFile;
+    if (typeof file?.fetchedAt !== "number" || !file.catalog || typeof file.catalog !== "object") {
+      return null;
+    }
+    return file;
+  } catch {
+    // Missing or corrupt cache
+    return null;
+  }
+}
+
+async function writeCatalogCache(catalog: ModelsDevCatalog): Promise<void> {
+  if (!CATALOG_CACHE_PATH) return;
+
+  try {
+    const file: CatalogCacheFile = { fetchedAt: Date.now(), catalog };
+    await Bun.write(CATALOG_CACHE_PATH, JSON.stringify(file));
+  } catch {
+    // Cache is best-effort
   }
 }
 
@@ -106,7 +253,57 @@ export function getProviderDisplayName(providerId: string): string {
   return providerId.charAt(0).toUpperCase() + providerId.slice(1);
 }
 
-export function getProviderLogoUrl(providerId: string): string {
+/** Model id patterns of the labs that make them, whose own listing is the list price */
+const MODEL_VENDORS: [pattern: RegExp, providerId: string][] = [
+  [/^claude-/, "anthropic"],
+  [/^(gpt-|chatgpt-|codex-|o\d(-|$))/, "openai"],
+  [/^(gemini-|gemma-)/, "google"],
+  [/^grok-/, "xai"],
+  [/^deepseek-/, "deepseek"],
+  [/^(mistral-|codestral-|devstral-|magistral-|ministral-|pixtral-)/, "mistral"],
+  [/^kimi-/, "moonshotai"],
+  [/^glm-/, "zai"],
+  [/^(qwen|qwq-)/, "alibaba"],
+  [/^minimax-/, "minimax"],
+  [/^command-/, "cohere"],
+];
+
+/**
+ * Pricing for a model as served by a provider. Falls back to the list price of the lab that makes the model, so
+ * gateways like OpenRouter still get an estimate when they don't list the model themselves. Models of other labs
+ * stay unpriced rather than taking some reseller's markup.
+ */
+export function getModelPricing(providerId: string, modelId: string): ModelPricing | null {
+  if (!cachedData) {
+    return null;
+  }
+
+  const pricing = cachedData.pricing[`${providerId}/${modelId}`];
+  if (pricing) {
+    return pricing;
+  }
+
+  const vendorId = MODEL_VENDORS.find(([pattern]) => pattern.test(modelId.toLowerCase()))?.[1];
+  return (vendorId && cachedData.pricing[`${vendorId}/${modelId}`]) || null;
+}
+
+/** Estimated USD cost of a message's token usage; reasoning and cache fall back to output/input rates */
+export function estimateCost(tokens: NonNullable<MessageData["tokens"]>, pricing: ModelPricing): number {
+  const perToken = 1 / 1_000_000;
+  return (
+    (tokens.input || 0) * pricing.input * perToken +
+    (tokens.output || 0) * pricing.output * perToken +
+    (tokens.reasoning || 0) * (pricing.reasoning ?? pricing.output) * perToken +
+    (tokens.cache?.read || 0) * (pricing.cacheRead ?? pricing.input) * perToken +
+    (tokens.cache?.write || 0) * (pricing.cacheWrite ?? pricing.input) * perToken
+  );
+}
+
+export function getProviderLogoUrl(providerId: string): string | undefined {
+  if (offlineMode) {
+    return undefined;
+  }
+
   return `https://models.dev/logos/${providerId}.svg`;
 }
 
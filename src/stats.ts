@@ -1,18 +1,97 @@
-import type { OpenCodeStats, ModelStats, ProviderStats, WeekdayActivity } from "./types";
-import { collectMessages, collectProjects, collectSessions } from "./collector";
-import { fetchModelsData, getModelDisplayName, getModelProvider, getProviderDisplayName } from "./models";
-
-export async function calculateStats(year: number): Promise<OpenCodeStats> {
-  const [, allSessions, messages, projects] = await Promise.all([
-    fetchModelsData(),
-    collectSessions(),
-    collectMessages(year),
-    collectProjects(),
+import { basename, extname, resolve, sep } from "node:path";
+import type {
+  AgentStats,
+  Chronotype,
+  CodeChurn,
+  CostBreakdown,
+  DateRange,
+  DayBoundary,
+  FinishReason,
+  HourlyActivity,
+  LanguageStats,
+  MessageData,
+  OpenCodeStats,
+  ModelPerformance,
+  ModelStats,
+  ModelTokenStats,
+  MonthlyActivity,
+  PartData,
+  ProjectData,
+  ProjectStats,
+  ProviderStats,
+  ReliabilityStats,
+  SessionData,
+  SessionTimeStats,
+  TokenBreakdown,
+  ToolStats,
+  WeekdayActivity,
+} from "./types";
+import { collectMessages, collectParts, collectProjects, collectSessions } from "./collector";
+import {
+  estimateCost,
+  fetchModelsData,
+  getModelDisplayName,
+  getModelPricing,
+  getModelProvider,
+  getProviderDisplayName,
+} from "./models";
+import {
+  addDays,
+  daysBetween,
+  DEFAULT_DAY_BOUNDARY,
+  getDayKey,
+  getDayParts,
+  getMonthsForRange,
+  isInRange,
+  resolveDayBoundary,
+} from "./utils/dates";
+
+export interface StatsOptions {
+  /** Storage roots to merge, defaults to the XDG OpenCode storage dir */
+  dataPaths?: string[];
+  /** Ignore the on-disk message index and re-parse every message file */
+  rebuildCache?: boolean;
+  /** Never hit the network, price models from the cached or bundled catalog */
+  offline?: boolean;
+  /** Scope everything to the repository containing this path */
+  project?: string;
+  /** How timestamps map to days, defaults to midnight in the system time zone */
+  dayBoundary?: DayBoundary;
+}
+
+export async function calculateStats(range: DateRange, options: StatsOptions = {}): Promise<OpenCodeStats> {
+  const { dataPaths, rebuildCache, offline, dayBoundary = DEFAULT_DAY_BOUNDARY } = options;
+  const [, collectedSessions, collectedMessages, collectedProjects] = await Promise.all([
+    fetchModelsData({ offline }),
+    collectSessions(undefined, dataPaths, { dayBoundary }),
+    collectMessages(range, dataPaths, { rebuildCache, dayBoundary }),
+    collectProjects(dataPaths),
   ]);
 
-  const sessions = allSessions.filter((s) => new Date(s.time.created).getFullYear() === year);
+  let allSessions = collectedSessions;
+  let messages = collectedMessages;
+  let projects = collectedProjects;
+  let project: OpenCodeStats["project"] = null;
+
+  if (options.project) {
+    const scope = resolveProjectScope(options.project, collectedProjects);
+    project = { name: scope.name, worktree: scope.worktree };
+    allSessions = collectedSessions.filter(scope.includes);
+
+    const sessionIds = new Set(allSessions.map((s) => s.id));
+    const projectIds = new Set(allSessions.map((s) => s.projectID));
+    messages = collectedMessages.filter((m) => sessionIds.has(m.sessionID));
+    projects = collectedProjects.filter((p) => projectIds.has(p.id));
+  }
 
-  // Find first session date (ever, not just this year)
+  const sessions = allSessions.filter((s) => isInRange(s.time.created, range, dayBoundary));
+  // Parts live under their message, so only read them once messages are in range and scoped
+  const parts = await collectParts(messages, dataPaths, { rebuildCache });
+  const projectsById = new Map(projects.map((p) => [p.id, p]));
+  // Messages in range may belong to sessions started before it, so map from every session
+  const sessionProjects = new Map(allSessions.map((s) => [s.id, s.projectID]));
+
+  // Find first session date (ever, not just this range)
   // Guard against empty sessions array - Math.min() returns Infinity with no arguments
   let firstSessionDate: Date;
   let daysSinceFirstSession: number;
@@ -23,33 +102,107 @@ export async function calculateStats(year: number): Promise<OpenCodeStats> {
   } else {
     const firstSessionTimestamp = Math.min(...allSessions.map((s) => s.time.created));
     firstSessionDate = new Date(firstSessionTimestamp);
-    daysSinceFirstSession = Math.floor((Date.now() - firstSessionTimestamp) / (1000 * 60 * 60 * 24));
+    daysSinceFirstSession = daysBetween(getDayKey(firstSessionTimestamp, dayBoundary), getDayKey(Date.now(), dayBoundary));
   }
 
   const totalSessions = sessions.length;
   const totalMessages = messages.length;
-  const totalProjects = projects.length;
+  // A scope's project ids (worktrees, moved checkouts) only count once they have a session in the range
+  const totalProjects = project ? new Set(sessions.map((s) => s.projectID)).size : projects.length;
 
-  let totalInputTokens = 0;
-  let totalOutputTokens = 0;
+  const tokens = emptyTokens();
+  const modelTokens = new Map<string, TokenBreakdown>();
   let totalCost = 0;
   let hasZenUsage = false;
+  let recordedCost = 0;
+  let estimatedCost = 0;
+  const modelCosts = new Map<string, { recorded: number; estimated: number }>();
+  const providerCosts = new Map<string, { recorded: number; estimated: number }>();
   const modelCounts = new Map<string, number>();
   const providerCounts = new Map<string, number>();
+  const agentCounts = new Map<string, number>();
+  const modeCounts = new Map<string, number>();
   const dailyActivity = new Map<string, number>();
+  const monthlyActivity = new Map(getMonthsForRange(range, dayBoundary).map((month) => [month, emptyMonth(month)]));
   const weekdayCounts: [number, number, number, number, number, number, number] = [0, 0, 0, 0, 0, 0, 0];
+  const hourCounts = new Array<number>(24).fill(0);
+  const weekdayHourCounts = Array.from({ length: 7 }, () => new Array<number>(24).fill(0));
+  const projectTotals = new Map<string, ProjectTotals>();
+  const modelTimings = new Map<string, ModelTimings>();
+  const finishCounts = emptyFinishCounts();
+  const modelFinishes = new Map<string, Record<FinishReason, number>>();
+  const providerFinishes = new Map<string, Record<FinishReason, number>>();
+  const codeChurn = emptyChurn();
+  const churnByYear = new Map<string, CodeChurn>();
+  const dailyChurn = new Map<string, CodeChurn>();
+  let biggestSession: SessionData | null = null;
+
+  for (const session of sessions) {
+    const totals = getProjectTotals(projectTotals, session.projectID);
+    totals.sessions++;
+
+    const month = monthlyActivity.get(getDayKey(session.time.created, dayBoundary).slice(0, 7));
+    if (month) month.sessions++;
+
+    if (session.summary) {
+      const dateKey = getDayKey(session.time.created, dayBoundary);
+      addChurn(codeChurn, session.summary);
+      addChurn(totals.churn, session.summary);
+      addChurn(getChurn(churnByYear, dateKey.slice(0, 4)), session.summary);
+      addChurn(getChurn(dailyChurn, dateKey), session.summary);
+
+      const size = churnSize(session.summary);
+      if (size > 0 && (!biggestSession || size > churnSize(biggestSession.summary!))) {
+        biggestSession = session;
+      }
+    }
+  }
 
   for (const message of messages) {
-    if (message.tokens) {
-      totalInputTokens += message.tokens.input || 0;
-      totalOutputTokens += message.tokens.output || 0;
-    }
+    addTokens(tokens, message.tokens);
 
     if (message.providerID === "opencode" && message.cost) {
       totalCost += message.cost;
       hasZenUsage = true;
     }
 
+    let recorded = 0;
+    let estimated = 0;
+    if (message.role === "assistant" && message.providerID && message.modelID) {
+      const modelKey = `${message.providerID}/${message.modelID}`;
+      const pricing = getModelPricing(message.providerID, message.modelID);
+      recorded = message.cost || 0;
+      estimated = pricing && message.tokens ? estimateCost(message.tokens, pricing) : 0;
+
+      recordedCost += recorded;
+      estimatedCost += estimated;
+      addCost(modelCosts, modelKey, recorded, estimated);
+      addCost(providerCosts, message.providerID, recorded, estimated);
+
+      const finish = classifyFinish(message);
+      finishCounts[finish]++;
+      addFinish(modelFinishes, modelKey, finish);
+      addFinish(providerFinishes, message.providerID, finish);
+
+      const breakdown = modelTokens.get(modelKey) ?? emptyTokens();
+      addTokens(breakdown, message.tokens);
+      modelTokens.set(modelKey, breakdown);
+
+      const { created, completed } = message.time;
+      if (completed && completed > created) {
+        addTiming(modelTimings, modelKey, completed - created, message.tokens?.output || 0);
+      }
+    }
+
+    // Older OpenCode versions only recorded the mode, which named the agent
+    const agent = message.agent || message.mode;
+    if (agent && !INTERNAL_AGENTS.has(agent)) {
+      agentCounts.set(agent, (agentCounts.get(agent) || 0) + 1);
+    }
+    if (message.mode && !INTERNAL_AGENTS.has(message.mode)) {
+      modeCounts.set(message.mode, (modeCounts.get(message.mode) || 0) + 1);
+    }
+
     if (message.role === "assistant") {
       if (message.modelID) {
         modelCounts.set(message.modelID, (modelCounts.get(message.modelID) || 0) + 1);
@@ -59,16 +212,47 @@ export async function calculateStats(year: number): Promise<OpenCodeStats> {
       }
     }
 
-    // Daily activity
-    const date = new Date(message.time.created);
-    const dateKey = formatDateKey(date);
+    // Daily activity, bucketed by the configured time zone and day start
+    const { dateKey, weekday, hour } = getDayParts(message.time.created, dayBoundary);
+
+    const projectId = sessionProjects.get(message.sessionID);
+    if (projectId) {
+      const totals = getProjectTotals(projectTotals, projectId);
+      totals.messages++;
+      totals.tokens += sumTokens(message.tokens);
+      totals.recordedCost += recorded;
+      totals.estimatedCost += estimated;
+      totals.activeDays.add(dateKey);
+    }
     dailyActivity.set(dateKey, (dailyActivity.get(dateKey) || 0) + 1);
 
+    const month = monthlyActivity.get(dateKey.slice(0, 7));
+    if (month) {
+      month.messages++;
+      month.tokens += sumTokens(message.tokens);
+      month.recordedCost += recorded;
+      month.estimatedCost += estimated;
+    }
+
     // Weekday activity
-    weekdayCounts[date.getDay()]++;
+    weekdayCounts[weekday]++;
+
+    // Hour-of-day activity
+    hourCounts[hour]++;
+    weekdayHourCounts[weekday][hour]++;
   }
 
-  const totalTokens = totalInputTokens + totalOutputTokens;
+  const promptTokens = tokens.input + tokens.cacheRead;
+  const cacheHitRatio = promptTokens > 0 ? tokens.cacheRead / promptTokens : 0;
+
+  const tokensByModel: ModelTokenStats[] = Array.from(modelTokens.entries())
+    .sort((a, b) => b[1].total - a[1].total)
+    .map(([id, t]) => ({
+      id,
+      name: getModelDisplayName(id.slice(id.indexOf("/") + 1)),
+      providerId: id.slice(0, id.indexOf("/")),
+      tokens: t,
+    }));
 
   const topModels: ModelStats[] = Array.from(modelCounts.entries())
     .sort((a, b) => b[1] - a[1])
@@ -91,48 +275,518 @@ export async function calculateStats(year: number): Promise<OpenCodeStats> {
       percentage: 0,
     }));
 
-  const { maxStreak, currentStreak, maxStreakDays } = calculateStreaks(dailyActivity, year);
+  const agents = buildAgentStats(agentCounts);
+  const modes = buildAgentStats(modeCounts);
+
+  const reliability = buildReliability("all", "All models", finishCounts);
+  const reliabilityByModel = buildReliabilityBreakdown(modelFinishes, (key) =>
+    getModelDisplayName(key.slice(key.indexOf("/") + 1))
+  );
+  const reliabilityByProvider = buildReliabilityBreakdown(providerFinishes, getProviderDisplayName);
+
+  const costByModel = buildCostBreakdown(modelCosts, (key) => getModelDisplayName(key.slice(key.indexOf("/") + 1)));
+  const costByProvider = buildCostBreakdown(providerCosts, getProviderDisplayName);
+  const projectStats = buildProjectStats(projectTotals, projectsById);
+  const modelPerformance = buildModelPerformance(modelTimings);
+
+  const { tools, languages } = buildToolStats(parts);
+
+  const sessionTime = calculateSessionTime(sessions, messages, projectsById);
+
+  const { maxStreak, currentStreak, maxStreakDays } = calculateStreaks(dailyActivity, range, dayBoundary);
 
   const mostActiveDay = findMostActiveDay(dailyActivity);
   const weekdayActivity = buildWeekdayActivity(weekdayCounts);
+  const hourlyActivity = buildHourlyActivity(hourCounts, weekdayHourCounts);
 
   return {
-    year,
+    year: Number(range.to.slice(0, 4)),
+    range,
+    project,
+    dayBoundary: resolveDayBoundary(dayBoundary),
     firstSessionDate,
     daysSinceFirstSession,
     totalSessions,
     totalMessages,
     totalProjects,
-    totalInputTokens,
-    totalOutputTokens,
-    totalTokens,
+    totalInputTokens: tokens.input,
+    totalOutputTokens: tokens.output,
+    totalTokens: tokens.total,
+    tokens,
+    cacheHitRatio,
+    tokensByModel,
     totalCost,
     hasZenUsage,
+    recordedCost,
+    estimatedCost,
+    costByModel,
+    costByProvider,
     topModels,
     topProviders,
+    providersUsed: providerCounts.size,
+    agents,
+    modes,
+    topCustomAgent: agents.find((a) => a.custom) ?? null,
+    modelPerformance,
+    fastestModel: findFastestModel(modelPerformance),
+    projects: projectStats,
+    reliability,
+    reliabilityByModel,
+    reliabilityByProvider,
+    tools,
+    languages,
+    sessionTime,
+    codeChurn,
+    churnByYear,
+    dailyChurn,
+    biggestSession: biggestSession && {
+      id: biggestSession.id,
+      title: biggestSession.title,
+      project: getProjectName(biggestSession.projectID, projectsById),
+      date: getDayKey(biggestSession.time.created, dayBoundary),
+      churn: addChurn(emptyChurn(), biggestSession.summary!),
+    },
     maxStreak,
     currentStreak,
     maxStreakDays,
     dailyActivity,
+    monthlyActivity: Array.from(monthlyActivity.values()),
     mostActiveDay,
     weekdayActivity,
+    hourlyActivity,
+  };
+}
+
+function emptyTokens(): TokenBreakdown {
+  return { input: 0, output: 0, reasoning: 0, cacheRead: 0, cacheWrite: 0, total: 0 };
+}
+
+function sumTokens(tokens: MessageData["tokens"]): number {
+  if (!tokens) return 0;
+  return (
+    (tokens.input || 0) +
+    (tokens.output || 0) +
+    (tokens.reasoning || 0) +
+    (tokens.cache?.read || 0) +
+    (tokens.cache?.write || 0)
+  );
+}
+
+function addTokens(breakdown: TokenBreakdown, tokens: MessageData["tokens"]) {
+  if (!tokens) return;
+  breakdown.input += tokens.input || 0;
+  breakdown.output += tokens.output || 0;
+  breakdown.reasoning += tokens.reasoning || 0;
+  breakdown.cacheRead += tokens.cache?.read || 0;
+  breakdown.cacheWrite += tokens.cache?.write || 0;
+  breakdown.total += sumTokens(tokens);
+}
+
+function addCost(costs: Map<string, { recorded: number; estimated: number }>, key: string, recorded: number, estimated: number) {
+  const entry = costs.get(key) ?? { recorded: 0, estimated: 0 };
+  entry.recorded += recorded;
+  entry.estimated += estimated;
+  costs.set(key, entry);
+}
+
+function buildCostBreakdown(
+  costs: Map<string, { recorded: number; estimated: number }>,
+  getName: (id: string) => string
+): CostBreakdown[] {
+  return Array.from(costs.entries())
+    .filter(([, cost]) => cost.recorded > 0 || cost.estimated > 0)
+    .sort((a, b) => b[1].estimated - a[1].estimated || b[1].recorded - a[1].recorded)
+    .map(([id, cost]) => ({
+      id,
+      name: getName(id),
+      recordedCost: cost.recorded,
+      estimatedCost: cost.estimated,
+    }));
+}
+
+const FINISH_REASONS: FinishReason[] = ["stop", "tool-calls", "length", "error", "aborted", "other"];
+
+function emptyFinishCounts(): Record<FinishReason, number> {
+  return { stop: 0, "tool-calls": 0, length: 0, error: 0, aborted: 0, other: 0 };
+}
+
+/** Errors take precedence over the finish field, which is often missing on failed turns */
+function classifyFinish(message: MessageData): FinishReason {
+  if (message.error) {
+    return message.error.name === "MessageAbortedError" ? "aborted" : "error";
+  }
+  const finish = message.finish as FinishReason | undefined;
+  return finish && FINISH_REASONS.includes(finish) ? finish : "other";
+}
+
+function addFinish(finishes: Map<string, Record<FinishReason, number>>, key: string, finish: FinishReason) {
+  const counts = finishes.get(key) ?? emptyFinishCounts();
+  counts[finish]++;
+  finishes.set(key, counts);
+}
+
+function buildReliability(id: string, name: string, finishReasons: Record<FinishReason, number>): ReliabilityStats {
+  const messages = FINISH_REASONS.reduce((sum, reason) => sum + finishReasons[reason], 0);
+  return {
+    id,
+    name,
+    messages,
+    finishReasons,
+    errorRate: messages > 0 ? finishReasons.error / messages : 0,
+    abortRate: messages > 0 ? finishReasons.aborted / messages : 0,
+  };
+}
+
+function buildReliabilityBreakdown(
+  finishes: Map<string, Record<FinishReason, number>>,
+  getName: (id: string) => string
+): ReliabilityStats[] {
+  return Array.from(finishes.entries())
+    .map(([id, counts]) => buildReliability(id, getName(id), counts))
+    .sort((a, b) => b.messages - a.messages);
+}
+
+/** Agents that ship with OpenCode; anything else was defined by the user */
+const BUILT_IN_AGENTS = new Set(["build", "plan", "general", "explore"]);
+
+/** Hidden agents OpenCode runs on its own to compact, title and summarize sessions; not counted at all */
+const INTERNAL_AGENTS = new Set(["compaction", "title", "summary"]);
+
+function buildAgentStats(counts: Map<string, number>): AgentStats[] {
+  const total = Array.from(counts.values()).reduce((sum, count) => sum + count, 0);
+  return Array.from(counts.entries())
+    .sort((a, b) => b[1] - a[1])
+    .map(([name, count]) => ({
+      name,
+      count,
+      percentage: total > 0 ? (count / total) * 100 : 0,
+      custom: !BUILT_IN_AGENTS.has(name),
+    }));
+}
+
+interface ModelTimings {
+  latencies: number[];
+  outputTokens: number;
+  generationTime: number; // ms, only messages that produced output
+}
+
+const EDIT_TOOLS = new Set(["edit", "write", "multiedit"]);
+
+const EXTENSION_LANGUAGES: Record<string, string> = {
+  ".ts": "TypeScript",
+  ".tsx": "TypeScript",
+  ".mts": "TypeScript",
+  ".cts": "TypeScript",
+  ".js": "JavaScript",
+  ".jsx": "JavaScript",
+  ".mjs": "JavaScript",
+  ".cjs": "JavaScript",
+  ".py": "Python",
+  ".go": "Go",
+  ".rs": "Rust",
+  ".java": "Java",
+  ".kt": "Kotlin",
+  ".swift": "Swift",
+  ".c": "C",
+  ".h": "C",
+  ".cc": "C++",
+  ".cpp": "C++",
+  ".hpp": "C++",
+  ".cs": "C#",
+  ".rb": "Ruby",
+  ".php": "PHP",
+  ".ex": "Elixir",
+  ".exs": "Elixir",
+  ".zig": "Zig",
+  ".lua": "Lua",
+  ".sh": "Shell",
+  ".bash": "Shell",
+  ".zsh": "Shell",
+  ".sql": "SQL",
+  ".html": "HTML",
+  ".css": "CSS",
+  ".scss": "CSS",
+  ".vue": "Vue",
+  ".svelte": "Svelte",
+  ".astro": "Astro",
+  ".md": "Markdown",
+  ".mdx": "Markdown",
+  ".json": "JSON",
+  ".yaml": "YAML",
+  ".yml": "YAML",
+  ".toml": "TOML",
+  ".nix": "Nix",
+};
+
+function buildToolStats(parts: PartData[]): { tools: ToolStats[]; languages: LanguageStats[] } {
+  const toolCounts = new Map<string, { calls: number; completed: number; failures: number }>();
+  const languageCounts = new Map<string, { extensions: Set<string>; edits: number }>();
+
+  for (const part of parts) {
+    if (part.type !== "tool" || !part.tool) continue;
+
+    const counts = toolCounts.get(part.tool) ?? { calls: 0, completed: 0, failures: 0 };
+    counts.calls++;
+    if (part.state?.status === "completed") counts.completed++;
+    if (part.state?.status === "error") counts.failures++;
+    toolCounts.set(part.tool, counts);
+
+    const filePath = part.state?.input?.filePath;
+    if (EDIT_TOOLS.has(part.tool) && part.state?.status === "completed" && filePath) {
+      // Dotfiles and extensionless files (Makefile, Dockerfile) are ranked by name
+      const extension = extname(filePath).toLowerCase() || basename(filePath);
+      const name = EXTENSION_LANGUAGES[extension] ?? extension;
+      const language = languageCounts.get(name) ?? { extensions: new Set<string>(), edits: 0 };
+      language.extensions.add(extension);
+      language.edits++;
+      languageCounts.set(name, language);
+    }
+  }
+
+  const tools = Array.from(toolCounts.entries())
+    .sort((a, b) => b[1].calls - a[1].calls)
+    .map(([name, { calls, completed, failures }]) => ({
+      name,
+      calls,
+      failures,
+      failureRate: completed + failures > 0 ? failures / (completed + failures) : 0,
+    }));
+
+  const languages = Array.from(languageCounts.entries())
+    .sort((a, b) => b[1].edits - a[1].edits)
+    .map(([name, { extensions, edits }]) => ({ name, extensions: Array.from(extensions).sort(), edits }));
+
+  return { tools, languages };
+}
+
+function addTiming(timings: Map<string, ModelTimings>, key: string, latency: number, outputTokens: number) {
+  const entry = timings.get(key) ?? { latencies: [], outputTokens: 0, generationTime: 0 };
+  entry.latencies.push(latency);
+  if (outputTokens > 0) {
+    entry.outputTokens += outputTokens;
+    entry.generationTime += latency;
+  }
+  timings.set(key, entry);
+}
+
+function buildModelPerformance(timings: Map<string, ModelTimings>): ModelPerformance[] {
+  return Array.from(timings.entries())
+    .sort((a, b) => b[1].latencies.length - a[1].latencies.length)
+    .map(([id, t]) => {
+      const latencies = t.latencies.sort((a, b) => a - b);
+      return {
+        id,
+        name: getModelDisplayName(id.slice(id.indexOf("/") + 1)),
+        providerId: id.slice(0, id.indexOf("/")),
+        messages: latencies.length,
+        latency: {
+          p50: percentile(latencies, 50),
+          p90: percentile(latencies, 90),
+          p99: percentile(latencies, 99),
+        },
+        outputTokensPerSecond: t.generationTime > 0 ? t.outputTokens / (t.generationTime / 1000) : 0,
+      };
+    });
+}
+
+/** Nearest-rank percentile of an ascending array */
+function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) return 0;
+  return sorted[Math.max(0, Math.ceil((p / 100) * sorted.length) - 1)];
+}
+
+/** Models with only a handful of replies are too noisy to crown */
+const MIN_FASTEST_MODEL_MESSAGES = 20;
+
+function findFastestModel(performance: ModelPerformance[]): ModelPerformance | null {
+  const candidates = performance.filter((m) => m.messages >= MIN_FASTEST_MODEL_MESSAGES && m.outputTokensPerSecond > 0);
+  return candidates.sort((a, b) => b.outputTokensPerSecond - a.outputTokensPerSecond)[0] ?? null;
+}
+
+interface ProjectScope {
+  name: string;
+  worktree: string;
+  includes: (session: SessionData) => boolean;
+}
+
+/**
+ * The repository containing `path`: the project with the deepest worktree at or above it. Paths outside
+ * any known repository (e.g. sessions in OpenCode's global project) match sessions started under them.
+ */
+function resolveProjectScope(path: string, projects: ProjectData[]): ProjectScope {
+  const target = resolve(path);
+  const isWithin = (dir: string, root: string) => dir === root || dir.startsWith(root.endsWith(sep) ? root : root + sep);
+
+  const worktree = projects
+    .map((p) => p.worktree)
+    .filter((w) => w && w !== sep && isWithin(target, w))
+    .sort((a, b) => b.length - a.length)[0];
+
+  if (worktree) {
+    // The same repository can show up under several ids when merging data dirs
+    const ids = new Set(projects.filter((p) => p.worktree === worktree).map((p) => p.id));
+    return { name: basename(worktree), worktree, includes: (s) => ids.has(s.projectID) };
+  }
+
+  return { name: basename(target) || target, worktree: target, includes: (s) => Boolean(s.directory) && isWithin(s.directory, target) };
+}
+
+interface ProjectTotals {
+  sessions: number;
+  messages: number;
+  tokens: number;
+  recordedCost: number;
+  estimatedCost: number;
+  activeDays: Set<string>;
+  churn: CodeChurn;
+}
+
+function getProjectTotals(totals: Map<string, ProjectTotals>, projectId: string): ProjectTotals {
+  let entry = totals.get(projectId);
+  if (!entry) {
+    entry = { sessions: 0, messages: 0, tokens: 0, recordedCost: 0, estimatedCost: 0, activeDays: new Set(), churn: emptyChurn() };
+    totals.set(projectId, entry);
+  }
+  return entry;
+}
+
+function buildProjectStats(totals: Map<string, ProjectTotals>, projectsById: Map<string, ProjectData>): ProjectStats[] {
+  return Array.from(totals.entries())
+    .filter(([, t]) => t.sessions > 0 || t.messages > 0)
+    .sort((a, b) => b[1].messages - a[1].messages || b[1].sessions - a[1].sessions)
+    .map(([id, t]) => ({
+      id,
+      name: getProjectName(id, projectsById),
+      worktree: projectsById.get(id)?.worktree ?? "",
+      sessions: t.sessions,
+      messages: t.messages,
+      tokens: t.tokens,
+      recordedCost: t.recordedCost,
+      estimatedCost: t.estimatedCost,
+      activeDays: t.activeDays.size,
+      churn: t.churn,
+    }));
+}
+
+function getProjectName(id: string, projectsById: Map<string, ProjectData>): string {
+  const worktree = projectsById.get(id)?.worktree;
+  // OpenCode files sessions outside a repository under a "global" project rooted at /
+  return worktree && worktree !== sep ? basename(worktree) : id;
+}
+
+function emptyChurn(): CodeChurn {
+  return { additions: 0, deletions: 0, files: 0 };
+}
+
+function getChurn(churns: Map<string, CodeChurn>, key: string): CodeChurn {
+  let churn = churns.get(key);
+  if (!churn) {
+    churn = emptyChurn();
+    churns.set(key, churn);
+  }
+  return churn;
+}
+
+/** Adds only the counts, summaries also carry the diffs themselves */
+function addChurn(churn: CodeChurn, summary: NonNullable<SessionData["summary"]>): CodeChurn {
+  churn.additions += summary.additions || 0;
+  churn.deletions += summary.deletions || 0;
+  churn.files += summary.files || 0;
+  return churn;
+}
+
+function churnSize(summary: NonNullable<SessionData["summary"]>): number {
+  return (summary.additions || 0) + (summary.deletions || 0);
+}
+
+/** Gaps between messages longer than this count as idle, e.g. a tab left open overnight */
+const IDLE_GAP_MS = 15 * 60 * 1000;
+
+function calculateSessionTime(
+  sessions: SessionData[],
+  messages: MessageData[],
+  projectsById: Map<string, ProjectData>
+): SessionTimeStats {
+  const totalDuration = sessions.reduce((sum, s) => sum + Math.max(0, s.time.updated - s.time.created), 0);
+
+  // Active time, median and longest cover the sessions started in the range, like the session count. Wall-clock
+  // spans would count the days in between for a session reopened later.
+  const activeDurations = calculateActiveDurations(messages);
+  const timedSessions = sessions.filter((s) => activeDurations.has(s.id));
+  const durations = timedSessions.map((s) => activeDurations.get(s.id)!);
+  const sorted = [...durations].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  const medianDuration = sorted.length === 0 ? 0 : sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+
+  let longestIndex = -1;
+  durations.forEach((duration, i) => {
+    if (duration > (durations[longestIndex] ?? 0)) {
+      longestIndex = i;
+    }
+  });
+  const longest = timedSessions[longestIndex];
+
+  return {
+    totalDuration,
+    medianDuration,
+    activeTime: durations.reduce((sum, d) => sum + d, 0),
+    longestSession: longest
+      ? {
+          id: longest.id,
+          title: longest.title,
+          project: getProjectName(longest.projectID, projectsById),
+          duration: durations[longestIndex],
+        }
+      : null,
   };
 }
 
-function formatDateKey(date: Date): string {
-  const year = date.getFullYear();
-  const month = String(date.getMonth() + 1).padStart(2, "0");
-  const day = String(date.getDate()).padStart(2, "0");
-  return `${year}-${month}-${day}`;
+/**
+ * Active time per session: time covered by its messages (created -> completed), bridging gaps up to IDLE_GAP_MS
+ * between them so thinking and typing time counts but idle periods don't.
+ */
+function calculateActiveDurations(messages: MessageData[]): Map<string, number> {
+  const bySession = new Map<string, [number, number][]>();
+  for (const message of messages) {
+    const start = message.time.created;
+    const end = Math.max(start, message.time.completed ?? start);
+    const spans = bySession.get(message.sessionID) ?? [];
+    spans.push([start, end]);
+    bySession.set(message.sessionID, spans);
+  }
+
+  const durations = new Map<string, number>();
+  for (const [sessionId, spans] of bySession) {
+    spans.sort((a, b) => a[0] - b[0]);
+
+    let total = 0;
+    let [spanStart, spanEnd] = spans[0];
+    for (const [start, end] of spans.slice(1)) {
+      if (start - spanEnd <= IDLE_GAP_MS) {
+        spanEnd = Math.max(spanEnd, end);
+      } else {
+        total += spanEnd - spanStart;
+        [spanStart, spanEnd] = [start, end];
+      }
+    }
+    durations.set(sessionId, total + spanEnd - spanStart);
+  }
+
+  return durations;
+}
+
+function emptyMonth(month: string): MonthlyActivity {
+  return { month, sessions: 0, messages: 0, tokens: 0, recordedCost: 0, estimatedCost: 0 };
 }
 
 function calculateStreaks(
   dailyActivity: Map<string, number>,
-  year: number
+  range: DateRange,
+  dayBoundary: DayBoundary
 ): { maxStreak: number; currentStreak: number; maxStreakDays: Set<string> } {
   // Get all active dates sorted
   const activeDates = Array.from(dailyActivity.keys())
-    .filter((date) => date.startsWith(String(year)))
+    .filter((date) => date >= range.from && date <= range.to)
     .sort();
 
   if (activeDates.length === 0) {
@@ -173,26 +827,26 @@ function calculateStreaks(
   }
 
   // Calculate current streak (from today or yesterday backwards)
-  const today = formatDateKey(new Date());
-  const yesterday = formatDateKey(new Date(Date.now() - 24 * 60 * 60 * 1000));
+  const today = getDayKey(Date.now(), dayBoundary);
+  const yesterday = addDays(today, -1);
 
   const currentStreak = dailyActivity.has(today)
-    ? countStreakBackwards(dailyActivity, new Date())
+    ? countStreakBackwards(dailyActivity, today)
     : dailyActivity.has(yesterday)
-    ? countStreakBackwards(dailyActivity, new Date(Date.now() - 24 * 60 * 60 * 1000))
+    ? countStreakBackwards(dailyActivity, yesterday)
     : 0;
 
   return { maxStreak, currentStreak, maxStreakDays };
 }
 
 /** Count consecutive days with activity going backwards from startDate (inclusive) */
-function countStreakBackwards(dailyActivity: Map<string, number>, startDate: Date): number {
+function countStreakBackwards(dailyActivity: Map<string, number>, startDate: string): number {
   let streak = 1;
-  let checkDate = new Date(startDate);
+  let checkDate = startDate;
 
   while (true) {
-    checkDate = new Date(checkDate.getTime() - 24 * 60 * 60 * 1000);
-    if (dailyActivity.has(formatDateKey(checkDate))) {
+    checkDate = addDays(checkDate, -1);
+    if (dailyActivity.has(checkDate)) {
       streak++;
     } else {
       break;
@@ -253,3 +907,55 @@ function buildWeekdayActivity(counts: [number, number, number, number, number, n
     maxCount,
   };
 }
+
+const CHRONOTYPE_LABELS: Record<Chronotype, string> = {
+  "night-owl": "Night Owl",
+  "early-bird": "Early Bird",
+  "nine-to-five": "Nine-to-Fiver",
+  "evening-coder": "Evening Coder",
+};
+
+function buildHourlyActivity(counts: number[], weekdayHourCounts: number[][]): HourlyActivity {
+  let peakHour = 0;
+  let maxCount = 0;
+  for (let i = 0; i < 24; i++) {
+    if (counts[i] > maxCount) {
+      maxCount = counts[i];
+      peakHour = i;
+    }
+  }
+
+  const chronotype = classifyChronotype(counts, peakHour);
+
+  return {
+    counts,
+    weekdayHourCounts,
+    peakHour,
+    maxCount,
+    chronotype,
+    chronotypeLabel: CHRONOTYPE_LABELS[chronotype],
+  };
+}
+
+/** 22:00 to 04:59, shared with the Night Owl badge so the label and badge agree */
+export const NIGHT_HOURS = [22, 23, 0, 1, 2, 3, 4];
+/** Share of messages in NIGHT_HOURS that makes a night owl */
+export const NIGHT_OWL_SHARE = 0.25;
+
+/** 05:00 to 08:59, shared with the Early Bird badge */
+export const MORNING_HOURS = [5, 6, 7, 8];
+/** Share of messages in MORNING_HOURS that makes an early bird */
+export const EARLY_BIRD_SHARE = 0.2;
+
+/** Night owls and early birds go by their share of activity, everyone else by their peak hour */
+function classifyChronotype(counts: number[], peakHour: number): Chronotype {
+  const total = counts.reduce((sum, count) => sum + count, 0);
+  if (total === 0) return "nine-to-five";
+
+  const share = (hours: number[]) => hours.reduce((sum, hour) => sum + counts[hour], 0) / total;
+
+  if (share(NIGHT_HOURS) >= NIGHT_OWL_SHARE) return "night-owl";
+  if (share(MORNING_HOURS) >= EARLY_BIRD_SHARE) return "early-bird";
+  if (peakHour >= 9 && peakHour < 18) return "nine-to-five";
+  return "evening-coder";
+}
@@ -41,6 +41,24 @@ export interface MessageData {
     };
   };
   finish?: string;
+  error?: {
+    name: string; // e.g. "MessageAbortedError", "ProviderAuthError", "APIError"
+  };
+}
+
+/** A message part from storage/part, trimmed to the fields we use (tool output is dropped) */
+export interface PartData {
+  id: string;
+  sessionID: string;
+  messageID: string;
+  type: string; // "text", "tool", "file", "patch", "step-start", ...
+  tool?: string; // Tool parts: "bash", "edit", "read", ...
+  state?: {
+    status: "pending" | "running" | "completed" | "error";
+    input?: {
+      filePath?: string;
+    };
+  };
 }
 
 export interface ProjectData {
@@ -55,6 +73,20 @@ export interface ProjectData {
   };
 }
 
+export interface DateRange {
+  kind: "year" | "month" | "quarter" | "week" | "last" | "custom";
+  from: string; // "YYYY-MM-DD", inclusive
+  to: string; // "YYYY-MM-DD", inclusive
+  label: string; // Human-readable, e.g. "2025", "Q3 2026", "Oct 2026"
+  slug: string; // File-name friendly, e.g. "2025", "2026-Q3", "2026-07-01_2026-09-30"
+}
+
+/** How timestamps map to days for daily, weekday and streak stats */
+export interface DayBoundary {
+  timeZone?: string; // IANA name, undefined for the system zone
+  dayStartHour: number; // Hour (0-23) a new day starts at, e.g. 4 counts 2am work toward the previous day
+}
+
 export interface ModelStats {
   id: string;
   name: string;
@@ -63,6 +95,13 @@ export interface ModelStats {
   percentage: number;
 }
 
+export interface AgentStats {
+  name: string; // Agent or mode name
+  count: number; // Messages
+  percentage: number; // Share of messages in the same ranking, 0-100
+  custom: boolean; // Not one of OpenCode's built-in agents or modes
+}
+
 export interface ProviderStats {
   id: string;
   name: string;
@@ -70,12 +109,133 @@ export interface ProviderStats {
   percentage: number;
 }
 
+export interface CostBreakdown {
+  id: string; // "providerId/modelId" for models, "providerId" for providers
+  name: string;
+  recordedCost: number;
+  estimatedCost: number;
+}
+
+export interface CodeChurn {
+  additions: number;
+  deletions: number;
+  files: number; // Summed per session, a file edited in two sessions counts twice
+}
+
+export interface TokenBreakdown {
+  input: number;
+  output: number;
+  reasoning: number;
+  cacheRead: number;
+  cacheWrite: number;
+  total: number; // All of the above
+}
+
+export interface ModelTokenStats {
+  id: string; // "providerId/modelId"
+  name: string;
+  providerId: string;
+  tokens: TokenBreakdown;
+}
+
+export interface ModelPerformance {
+  id: string; // "providerId/modelId"
+  name: string;
+  providerId: string;
+  messages: number; // Completed assistant messages measured
+  latency: {
+    // ms from message creation to completion
+    p50: number;
+    p90: number;
+    p99: number;
+  };
+  outputTokensPerSecond: number; // Total output tokens over total generation time
+}
+
+export type FinishReason = "stop" | "tool-calls" | "length" | "error" | "aborted" | "other";
+
+export interface ReliabilityStats {
+  id: string; // "providerId/modelId" for models, "providerId" for providers, "all" overall
+  name: string;
+  messages: number; // Assistant messages
+  finishReasons: Record<FinishReason, number>;
+  errorRate: number; // 0-1
+  abortRate: number; // 0-1
+}
+
+export interface ToolStats {
+  name: string; // Tool id: "bash", "edit", "read", ...
+  calls: number;
+  failures: number;
+  failureRate: number; // 0-1, share of finished calls that errored
+}
+
+export interface LanguageStats {
+  name: string; // "TypeScript", or the extension/file name when unknown
+  extensions: string[]; // Extensions seen for this language, e.g. [".ts", ".tsx"]
+  edits: number; // Completed edit/write tool calls
+}
+
+export interface SessionTimeStats {
+  totalDuration: number; // ms, sum of session spans (created -> last update)
+  medianDuration: number; // ms of active time, like longestSession
+  activeTime: number; // ms with an agent working or the user replying in sessions started in the range, idle gaps excluded
+  longestSession: {
+    id: string;
+    title: string;
+    project: string; // Project name
+    duration: number; // ms of active time, idle gaps excluded
+  } | null;
+}
+
+export interface ProjectStats {
+  id: string;
+  name: string; // Worktree folder name
+  worktree: string;
+  sessions: number;
+  messages: number;
+  tokens: number; // All token categories
+  recordedCost: number;
+  estimatedCost: number;
+  activeDays: number;
+  churn: CodeChurn;
+}
+
+export type ComparedMetric =
+  | "sessions"
+  | "messages"
+  | "tokens"
+  | "linesChanged"
+  | "activeTime"
+  | "projects"
+  | "streak"
+  | "zenCost"
+  | "estimatedCost";
+
+export interface StatDelta {
+  previous: number;
+  current: number;
+  change: number | null; // Relative change (1.4 = +140%), null when there was nothing to compare against
+}
+
+export interface StatsComparison {
+  range: DateRange; // The period compared against
+  deltas: Record<ComparedMetric, StatDelta>;
+}
+
 export interface OpenCodeStats {
-  year: number;
+  year: number; // Year the range ends in
+  range: DateRange;
+
+  // Repository the wrapped is scoped to with --project, null for all projects
+  project: { name: string; worktree: string } | null;
+
+  // Day bucketing used for daily, weekday and streak stats, with the system zone resolved
+  dayBoundary: Required<DayBoundary>;
 
   // Time-based
   firstSessionDate: Date;
-  daysSinceFirstSession: number;
+  daysSinceFirstSession: number; // Calendar days in the boundary's time zone
 
   // Counts
   totalSessions: number;
@@ -85,26 +245,76 @@ export interface OpenCodeStats {
   // Tokens
   totalInputTokens: number;
   totalOutputTokens: number;
-  totalTokens: number;
+  totalTokens: number; // Input, output, reasoning and cache reads/writes
+  tokens: TokenBreakdown;
+  cacheHitRatio: number; // 0-1, share of prompt tokens served from cache
+  tokensByModel: ModelTokenStats[]; // Sorted by total tokens
 
   // Cost (only from OpenCode/Zen provider)
   totalCost: number;
   hasZenUsage: boolean;
 
+  // Cost across all providers: as recorded by OpenCode, and estimated from models.dev pricing
+  recordedCost: number;
+  estimatedCost: number;
+  costByModel: CostBreakdown[]; // Sorted by estimated cost
+  costByProvider: CostBreakdown[]; // Sorted by estimated cost
+
   // Models (sorted by usage)
   topModels: ModelStats[];
 
   // Providers (sorted by usage)
   topProviders: ProviderStats[];
+  providersUsed: number; // Distinct providers that answered at least once, priced or not
+
+  // Agents and modes (sorted by usage), without OpenCode's internal agents
+  agents: AgentStats[]; // Falls back to the mode for messages without an agent
+  modes: AgentStats[]; // Only messages that recorded a mode
+  topCustomAgent: AgentStats | null;
+
+  // Response latency and throughput per model (sorted by messages)
+  modelPerformance: ModelPerformance[];
+  fastestModel: ModelPerformance | null; // Highest throughput among models with enough samples
+
+  // Projects active in the range (sorted by messages)
+  projects: ProjectStats[];
+
+  // How assistant turns ended (sorted by messages)
+  reliability: ReliabilityStats;
+  reliabilityByModel: ReliabilityStats[];
+  reliabilityByProvider: ReliabilityStats[];
+
+  // Tool calls from message parts (sorted by calls)
+  tools: ToolStats[];
+  // Languages of files touched by edit/write tool calls (sorted by edits)
+  languages: LanguageStats[];
+
+  // Time spent in sessions
+  sessionTime: SessionTimeStats;
+
+  // Code churn from session summaries, attributed to the day each session started
+  codeChurn: CodeChurn;
+  churnByYear: Map<string, CodeChurn>; // "2025" -> churn
+  dailyChurn: Map<string, CodeChurn>; // "2025-01-15" -> churn
+  biggestSession: {
+    id: string;
+    title: string;
+    project: string; // Project name
+    date: string; // "YYYY-MM-DD"
+    churn: CodeChurn;
+  } | null;
 
   // Streak
   maxStreak: number;
   currentStreak: number;
   maxStreakDays: Set<string>; // Days that form the max streak (for heatmap highlighting)
 
-  // Activity heatmap (for the year)
+  // Activity heatmap (for the range)
   dailyActivity: Map<string, number>; // "2025-01-15" -> count
 
+  // Per-month totals for every month of the range up to today, oldest first
+  monthlyActivity: MonthlyActivity[];
+
   // Most active day
   mostActiveDay: {
     date: string;
@@ -114,6 +324,18 @@ export interface OpenCodeStats {
 
   // Weekday activity distribution (0=Sunday, 6=Saturday)
   weekdayActivity: WeekdayActivity;
+
+  // Hour-of-day activity distribution (in the configured time zone)
+  hourlyActivity: HourlyActivity;
+}
+
+export interface MonthlyActivity {
+  month: string; // "YYYY-MM"
+  sessions: number; // Sessions started in the month
+  messages: number;
+  tokens: number; // All token categories
+  recordedCost: number;
+  estimatedCost: number;
 }
 
 export interface WeekdayActivity {
@@ -123,6 +345,27 @@ export interface WeekdayActivity {
   maxCount: number;
 }
 
+export type Chronotype = "night-owl" | "early-bird" | "nine-to-five" | "evening-coder";
+
+export interface HourlyActivity {
+  counts: number[]; // 24 buckets, 0 = midnight
+  weekdayHourCounts: number[][]; // [weekday 0-6][hour 0-23]
+  peakHour: number;
+  maxCount: number;
+  chronotype: Chronotype;
+  chronotypeLabel: string;
+}
+
+export type AchievementTier = "bronze" | "silver" | "gold";
+
+export interface Achievement {
+  id: string;
+  name: string; // "Night Owl"
+  description: string; // What the earned tier took, e.g. "100-day streak"
+  tier: AchievementTier; // Highest tier reached
+  value: number; // The measured value, in the rule's unit
+}
+
 export interface CliArgs {
   year?: number;
   help?: boolean;
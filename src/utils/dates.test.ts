@@ -0,0 +1,52 @@
+import { describe, expect, test } from "bun:test";
+import { daysBetween, getDayParts, parseDateRange, validateDayBoundary } from "./dates";
+
+// 2025-03-02 01:30 UTC: a Sunday night in New York, a Sunday morning in Tokyo
+const TIMESTAMP = Date.UTC(2025, 2, 2, 1, 30);
+
+describe("getDayParts", () => {
+  test("buckets by the boundary's time zone", () => {
+    expect(getDayParts(TIMESTAMP, { timeZone: "Asia/Tokyo", dayStartHour: 0 })).toEqual({
+      dateKey: "2025-03-02",
+      weekday: 0,
+      hour: 10,
+    });
+    expect(getDayParts(TIMESTAMP, { timeZone: "America/New_York", dayStartHour: 0 })).toEqual({
+      dateKey: "2025-03-01",
+      weekday: 6,
+      hour: 20,
+    });
+  });
+
+  test("hours before the day start count toward the previous day", () => {
+    expect(getDayParts(TIMESTAMP, { timeZone: "UTC", dayStartHour: 4 })).toEqual({
+      dateKey: "2025-03-01",
+      weekday: 6,
+      hour: 1,
+    });
+  });
+
+  test("boundaries don't affect each other", () => {
+    getDayParts(TIMESTAMP, { timeZone: "Asia/Tokyo", dayStartHour: 6 });
+    expect(getDayParts(TIMESTAMP, { timeZone: "UTC", dayStartHour: 0 }).dateKey).toBe("2025-03-02");
+  });
+});
+
+describe("validateDayBoundary", () => {
+  test("rejects unknown zones and out-of-range hours", () => {
+    expect(() => validateDayBoundary({ timeZone: "Mars/Olympus", dayStartHour: 0 })).toThrow("Invalid time zone");
+    expect(() => validateDayBoundary({ dayStartHour: 24 })).toThrow("Invalid day start hour: 24");
+    expect(() => validateDayBoundary({ dayStartHour: NaN })).toThrow("Invalid day start hour (expected 0-23)");
+  });
+});
+
+test("relative ranges end on today in the boundary's time zone", () => {
+  const args = { last: "7d" };
+  expect(parseDateRange(args, { timeZone: "Asia/Tokyo", dayStartHour: 0 }, TIMESTAMP).to).toBe("2025-03-02");
+  expect(parseDateRange(args, { timeZone: "America/New_York", dayStartHour: 0 }, TIMESTAMP).to).toBe("2025-03-01");
+});
+
+test("daysBetween counts calendar days across DST changes", () => {
+  expect(daysBetween("2025-03-08", "2025-03-10")).toBe(2);
+  expect(daysBetween("2025-03-10", "2025-03-08")).toBe(-2);
+});
@@ -1,62 +1,164 @@
-// Date utilities for heatmap generation
+// Date utilities for heatmap generation and date ranges
 
-export function generateWeeksForYear(year: number): string[][] {
-  const weeks: string[][] = [];
+import type { DateRange, DayBoundary } from "../types";
 
-  // Start from Jan 1st of the year
-  const startDate = new Date(year, 0, 1);
+export const MONTH_NAMES = ["Jan", "Feb", "Mar", "Apr", "May", "Jun", "Jul", "Aug", "Sep", "Oct", "Nov", "Dec"];
 
-  // Adjust to start from the first Sunday (or the day itself if it's Sunday)
-  const startDay = startDate.getDay();
-  const adjustedStart = new Date(startDate);
-  if (startDay !== 0) {
-    adjustedStart.setDate(startDate.getDate() - startDay);
-  }
+const WEEKDAY_SHORT_NAMES = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
 
-  // End date is Dec 31st or today if it's the current year
-  const now = new Date();
-  const isCurrentYear = year === now.getFullYear();
-  const endDate = isCurrentYear ? now : new Date(year, 11, 31);
+// =============================================================================
+// DAY BOUNDARY
+// =============================================================================
 
-  let currentDate = new Date(adjustedStart);
-  let currentWeek: string[] = [];
+export interface DayParts {
+  dateKey: string; // "YYYY-MM-DD" of the (shifted) day
+  weekday: number; // 0=Sunday, 6=Saturday, of the (shifted) day
+  hour: number; // Wall-clock hour, 0-23
+}
 
-  while (currentDate <= endDate || currentWeek.length > 0) {
-    const dayOfWeek = currentDate.getDay();
+/** Midnight in the system time zone */
+export const DEFAULT_DAY_BOUNDARY: DayBoundary = { dayStartHour: 0 };
 
-    // Format date as YYYY-MM-DD
-    const dateStr = formatDateKey(currentDate);
+// Formatters are slow to create and getDayParts() runs once per message, so keep one per zone
+const zonedFormatters = new Map<string, Intl.DateTimeFormat>();
+
+/**
+ * Check a day boundary before it's used for any stats.
+ * Throws on an unknown time zone or an out-of-range hour.
+ */
+export function validateDayBoundary({ timeZone, dayStartHour }: DayBoundary): void {
+  if (!Number.isInteger(dayStartHour) || dayStartHour < 0 || dayStartHour > 23) {
+    throw new Error(`Invalid day start hour${Number.isNaN(dayStartHour) ? "" : `: ${dayStartHour}`} (expected 0-23)`);
+  }
+  if (timeZone) {
+    getZonedFormatter(timeZone);
+  }
+}
 
-    // Only include dates within the year
-    if (currentDate.getFullYear() === year && currentDate <= endDate) {
-      currentWeek.push(dateStr);
-    } else if (currentDate.getFullYear() === year) {
-      // Pad with empty strings for dates outside range but in the week
-      currentWeek.push("");
+/** The boundary with the system time zone filled in, as reported in the stats */
+export function resolveDayBoundary({ timeZone, dayStartHour }: DayBoundary): Required<DayBoundary> {
+  return {
+    timeZone: timeZone ?? Intl.DateTimeFormat().resolvedOptions().timeZone,
+    dayStartHour,
+  };
+}
+
+function getZonedFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = zonedFormatters.get(timeZone);
+  if (!formatter) {
+    try {
+      formatter = new Intl.DateTimeFormat("en-US", {
+        timeZone,
+        year: "numeric",
+        month: "2-digit",
+        day: "2-digit",
+        weekday: "short",
+        hour: "2-digit",
+        hourCycle: "h23",
+      });
+    } catch {
+      throw new Error(`Invalid time zone: ${timeZone} (expected an IANA name like Europe/Berlin)`);
     }
+    zonedFormatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+/** Split a timestamp into its day, weekday and hour, honoring the boundary's time zone and day start */
+export function getDayParts(timestamp: number, { timeZone, dayStartHour }: DayBoundary): DayParts {
+  // Shifting back by the start hour moves early-morning activity onto the previous day
+  const shifted = timestamp - dayStartHour * 60 * 60 * 1000;
+
+  if (!timeZone) {
+    const date = new Date(shifted);
+    return {
+      dateKey: formatDateKey(date),
+      weekday: date.getDay(),
+      hour: (date.getHours() + dayStartHour) % 24,
+    };
+  }
+
+  const parts: Record<string, string> = {};
+  for (const { type, value } of getZonedFormatter(timeZone).formatToParts(shifted)) {
+    parts[type] = value;
+  }
+
+  return {
+    dateKey: `${parts.year}-${parts.month}-${parts.day}`,
+    weekday: WEEKDAY_SHORT_NAMES.indexOf(parts.weekday),
+    hour: (Number(parts.hour) + dayStartHour) % 24,
+  };
+}
+
+export function getDayKey(timestamp: number, dayBoundary: DayBoundary): string {
+  return getDayParts(timestamp, dayBoundary).dateKey;
+}
+
+/** Add (or subtract) calendar days to a "YYYY-MM-DD" key */
+export function addDays(dateKey: string, days: number): string {
+  const date = parseDateKey(dateKey);
+  date.setDate(date.getDate() + days);
+  return formatDateKey(date);
+}
+
+/** Calendar days from one "YYYY-MM-DD" key to another */
+export function daysBetween(from: string, to: string): number {
+  // Rounding absorbs the hour a DST change adds or removes
+  return Math.round((parseDateKey(to).getTime() - parseDateKey(from).getTime()) / (1000 * 60 * 60 * 24));
+}
+
+/**
+ * Group the days of a range into Sunday-first weeks for the heatmap.
+ * Days before the range start are padded with "" so weekday rows line up; days after today are left out.
+ */
+export function generateWeeksForRange(range: DateRange, dayBoundary: DayBoundary): string[][] {
+  const weeks: string[][] = [];
+
+  const today = getDayKey(Date.now(), dayBoundary);
+  const endDate = parseDateKey(range.to < today ? range.to : today);
+
+  // Start from the Sunday on or before the first day of the range
+  const currentDate = parseDateKey(range.from);
+  currentDate.setDate(currentDate.getDate() - currentDate.getDay());
+
+  let currentWeek: string[] = [];
 
-    // If it's Saturday (end of week) or we've passed the end date
-    if (dayOfWeek === 6) {
-      if (currentWeek.length > 0 && currentWeek.some((d) => d !== "")) {
-        weeks.push(currentWeek);
-      }
+  while (currentDate <= endDate) {
+    const dateStr = formatDateKey(currentDate);
+    currentWeek.push(dateStr >= range.from ? dateStr : "");
+
+    // Saturday closes the week
+    if (currentDate.getDay() === 6) {
+      weeks.push(currentWeek);
       currentWeek = [];
     }
 
     currentDate.setDate(currentDate.getDate() + 1);
-
-    // Safety: stop if we've gone too far past the year
-    if (currentDate.getFullYear() > year + 1) break;
   }
 
   // Add any remaining days
-  if (currentWeek.length > 0 && currentWeek.some((d) => d !== "")) {
+  if (currentWeek.length > 0) {
     weeks.push(currentWeek);
   }
 
   return weeks;
 }
 
+/** "YYYY-MM" keys of the months a range touches, up to today */
+export function getMonthsForRange(range: DateRange, dayBoundary: DayBoundary): string[] {
+  const today = getDayKey(Date.now(), dayBoundary);
+  const end = (range.to < today ? range.to : today).slice(0, 7);
+
+  const months: string[] = [];
+  const date = parseDateKey(range.from);
+  date.setDate(1);
+  for (let month = range.from.slice(0, 7); month <= end; month = formatDateKey(date).slice(0, 7)) {
+    months.push(month);
+    date.setMonth(date.getMonth() + 1);
+  }
+  return months;
+}
+
 export function formatDateKey(date: Date): string {
   const year = date.getFullYear();
   const month = String(date.getMonth() + 1).padStart(2, "0");
@@ -64,6 +166,17 @@ export function formatDateKey(date: Date): string {
   return `${year}-${month}-${day}`;
 }
 
+/** Parse a "YYYY-MM-DD" key as local midnight */
+export function parseDateKey(dateKey: string): Date {
+  const [year, month, day] = dateKey.split("-").map(Number);
+  return new Date(year, month - 1, day);
+}
+
+export function isInRange(timestamp: number, range: DateRange, dayBoundary: DayBoundary): boolean {
+  const dateKey = getDayKey(timestamp, dayBoundary);
+  return dateKey >= range.from && dateKey <= range.to;
+}
+
 export function getIntensityLevel(count: number, maxCount: number): 0 | 1 | 2 | 3 | 4 | 5 | 6 {
   if (count === 0) return 0;
   if (maxCount === 0) return 0;
@@ -112,8 +225,227 @@ export function isWrappedAvailable(year: number): { available: boolean; message?
   return { available: true };
 }
 
+/** Year ranges follow the December launch; other ranges only need to have started */
+export function isRangeAvailable(
+  range: DateRange,
+  dayBoundary: DayBoundary
+): { available: boolean; message?: string | string[] } {
+  if (range.kind === "year") {
+    return isWrappedAvailable(Number(range.from.slice(0, 4)));
+  }
+
+  if (range.from > getDayKey(Date.now(), dayBoundary)) {
+    return {
+      available: false,
+      message: `OpenCode Wrapped for ${range.label} isn't available yet. The future hasn't been written!`,
+    };
+  }
+
+  return { available: true };
+}
+
 function calculateDaysUntilLaunch(now: Date, launchDay: number): number {
   const launchDate = new Date(now.getFullYear(), 11, launchDay);
   const diffTime = launchDate.getTime() - now.getTime();
   return Math.ceil(diffTime / (1000 * 60 * 60 * 24));
 }
+
+// =============================================================================
+// DATE RANGES
+// =============================================================================
+
+export interface DateRangeArgs {
+  year?: string;
+  month?: string;
+  quarter?: string;
+  week?: string;
+  last?: string;
+  from?: string;
+  to?: string;
+}
+
+export function yearRange(year: number): DateRange {
+  return {
+    kind: "year",
+    from: `${year}-01-01`,
+    to: `${year}-12-31`,
+    label: String(year),
+    slug: String(year),
+  };
+}
+
+/**
+ * The same period as `range`, moved to `year` (e.g. Q3 2026 -> Q3 2025) for year-over-year comparisons.
+ * Month ends stay month ends, so Feb 28 2025 maps to Feb 29 2024 and back.
+ */
+export function shiftRangeToYear(range: DateRange, year: number): DateRange {
+  if (range.kind === "year") {
+    return yearRange(year);
+  }
+
+  const offset = year - Number(range.to.slice(0, 4));
+  const [from, to] = [range.from, range.to].map((dateKey) => {
+    const date = parseDateKey(dateKey);
+    const isMonthEnd = addDays(dateKey, 1).endsWith("-01");
+    const lastDay = new Date(date.getFullYear() + offset, date.getMonth() + 1, 0).getDate();
+    const day = isMonthEnd ? lastDay : Math.min(date.getDate(), lastDay);
+    return formatDateKey(new Date(date.getFullYear() + offset, date.getMonth(), day));
+  });
+
+  if (range.kind === "month") {
+    return { ...range, from, to, label: `${MONTH_NAMES[parseDateKey(from).getMonth()]} ${year}`, slug: from.slice(0, 7) };
+  }
+  if (range.kind === "quarter") {
+    return { ...range, from, to, label: range.label.replace(/\d{4}$/, String(year)), slug: range.slug.replace(/^\d{4}/, String(year)) };
+  }
+  return { kind: "custom", from, to, label: formatRangeLabel(from, to), slug: `${from}_${to}` };
+}
+
+/**
+ * Build the requested range from CLI arguments, defaulting to the current year.
+ * Relative ranges are anchored to today as the day boundary sees it.
+ * Throws with a user-facing message on malformed or conflicting arguments.
+ */
+export function parseDateRange(
+  args: DateRangeArgs,
+  dayBoundary: DayBoundary = DEFAULT_DAY_BOUNDARY,
+  timestamp: number = Date.now()
+): DateRange {
+  const now = parseDateKey(getDayKey(timestamp, dayBoundary));
+
+  const selectors = (["year", "month", "quarter", "week", "last"] as const).filter((key) => args[key] !== undefined);
+  const hasCustom = args.from !== undefined || args.to !== undefined;
+
+  if (selectors.length + (hasCustom ? 1 : 0) > 1) {
+    const names = [...selectors, ...(hasCustom ? ["from/to"] : [])].map((name) => `--${name}`);
+    throw new Error(`Conflicting date options: ${names.join(", ")} (use only one)`);
+  }
+
+  if (args.month !== undefined) {
+    const match = /^(\d{4})-(\d{2})$/.exec(args.month);
+    const month = match ? Number(match[2]) : 0;
+    if (!match || month < 1 || month > 12) {
+      throw new Error(`Invalid month: ${args.month} (expected YYYY-MM)`);
+    }
+    const year = Number(match[1]);
+    const lastDay = new Date(year, month, 0).getDate();
+    return {
+      kind: "month",
+      from: `${match[1]}-${match[2]}-01`,
+      to: `${match[1]}-${match[2]}-${String(lastDay).padStart(2, "0")}`,
+      label: `${MONTH_NAMES[month - 1]} ${year}`,
+      slug: args.month,
+    };
+  }
+
+  if (args.quarter !== undefined) {
+    const match = /^(\d{4})-?Q([1-4])$/i.exec(args.quarter);
+    if (!match) {
+      throw new Error(`Invalid quarter: ${args.quarter} (expected YYYY-Q1 to YYYY-Q4)`);
+    }
+    const year = Number(match[1]);
+    const quarter = Number(match[2]);
+    const from = new Date(year, (quarter - 1) * 3, 1);
+    const to = new Date(year, quarter * 3, 0);
+    return {
+      kind: "quarter",
+      from: formatDateKey(from),
+      to: formatDateKey(to),
+      label: `Q${quarter} ${year}`,
+      slug: `${year}-Q${quarter}`,
+    };
+  }
+
+  if (args.week !== undefined) {
+    const match = /^(\d{4})-?W(\d{2})$/i.exec(args.week);
+    const year = match ? Number(match[1]) : 0;
+    const week = match ? Number(match[2]) : 0;
+    if (!match || week < 1 || week > getIsoWeeksInYear(year)) {
+      throw new Error(`Invalid week: ${args.week} (expected ISO week YYYY-Www)`);
+    }
+    // ISO week 1 is the week containing January 4th, weeks start on Monday
+    const jan4 = new Date(year, 0, 4);
+    const monday = new Date(year, 0, 4 - ((jan4.getDay() + 6) % 7) + (week - 1) * 7);
+    const sunday = new Date(monday.getFullYear(), monday.getMonth(), monday.getDate() + 6);
+    return {
+      kind: "week",
+      from: formatDateKey(monday),
+      to: formatDateKey(sunday),
+      label: `Week ${week} ${year}`,
+      slug: `${year}-W${String(week).padStart(2, "0")}`,
+    };
+  }
+
+  if (args.last !== undefined) {
+    const match = /^(\d+)([dw])$/.exec(args.last);
+    const amount = match ? Number(match[1]) : 0;
+    if (!match || amount < 1) {
+      throw new Error(`Invalid duration: ${args.last} (expected e.g. 30d or 12w)`);
+    }
+    const days = match[2] === "w" ? amount * 7 : amount;
+    const from = new Date(now.getFullYear(), now.getMonth(), now.getDate() - (days - 1));
+    return {
+      kind: "last",
+      from: formatDateKey(from),
+      to: formatDateKey(now),
+      label: match[2] === "w" ? `Last ${amount} weeks` : `Last ${amount} days`,
+      slug: `last-${args.last}`,
+    };
+  }
+
+  if (hasCustom) {
+    if (args.from === undefined) {
+      throw new Error("--to requires --from");
+    }
+    const from = parseDateArg(args.from, "--from");
+    const to = args.to !== undefined ? parseDateArg(args.to, "--to") : formatDateKey(now);
+    if (from > to) {
+      throw new Error(`--from ${from} is after --to ${to}`);
+    }
+    return {
+      kind: "custom",
+      from,
+      to,
+      label: formatRangeLabel(from, to),
+      slug: `${from}_${to}`,
+    };
+  }
+
+  if (args.year !== undefined) {
+    if (!/^\d{4}$/.test(args.year)) {
+      throw new Error(`Invalid year: ${args.year}`);
+    }
+    return yearRange(Number(args.year));
+  }
+
+  return yearRange(now.getFullYear());
+}
+
+function parseDateArg(value: string, flag: string): string {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value);
+  // Round-trip through Date to reject impossible days like 2025-02-30
+  if (!match || formatDateKey(parseDateKey(value)) !== value) {
+    throw new Error(`Invalid date for ${flag}: ${value} (expected YYYY-MM-DD)`);
+  }
+  return value;
+}
+
+function formatRangeLabel(from: string, to: string): string {
+  const [fromDate, toDate] = [parseDateKey(from), parseDateKey(to)];
+  const fromLabel = `${MONTH_NAMES[fromDate.getMonth()]} ${fromDate.getDate()}`;
+  const toLabel = `${MONTH_NAMES[toDate.getMonth()]} ${toDate.getDate()}`;
+
+  if (fromDate.getFullYear() === toDate.getFullYear()) {
+    return `${fromLabel} – ${toLabel}, ${toDate.getFullYear()}`;
+  }
+  return `${fromLabel}, ${fromDate.getFullYear()} – ${toLabel}, ${toDate.getFullYear()}`;
+}
+
+function getIsoWeeksInYear(year: number): number {
+  // Years where Dec 28th falls in week 53 have 53 ISO weeks
+  const dec28 = new Date(year, 11, 28);
+  const jan4 = new Date(year, 0, 4);
+  const firstMonday = new Date(year, 0, 4 - ((jan4.getDay() + 6) % 7));
+  const days = Math.round((dec28.getTime() - firstMonday.getTime()) / (1000 * 60 * 60 * 24));
+  return Math.floor(days / 7) + 1;
+}
@@ -19,17 +19,24 @@ const currencyCompactFormatter = new Intl.NumberFormat("en-US", {
   maximumFractionDigits: 1,
 });
 
-const dateFormatter = new Intl.DateTimeFormat("en-US", {
+const dateOptions: Intl.DateTimeFormatOptions = {
   month: "long",
   day: "numeric",
   year: "numeric",
-});
+};
+
+const dateFormatter = new Intl.DateTimeFormat("en-US", dateOptions);
 
 const shortDateFormatter = new Intl.DateTimeFormat("en-US", {
   month: "short",
   day: "numeric",
 });
 
+const monthFormatter = new Intl.DateTimeFormat("en-US", {
+  month: "short",
+  year: "numeric",
+});
+
 export function formatNumber(num: number): string {
   return compactFormatter.format(num);
 }
@@ -41,10 +48,48 @@ export function formatCost(cost: number): string {
   return currencyFormatter.format(cost);
 }
 
-export function formatDate(date: Date): string {
-  return dateFormatter.format(date);
+/** Long date, in the given time zone instead of the system one when set */
+export function formatDate(date: Date, timeZone?: string): string {
+  if (!timeZone) return dateFormatter.format(date);
+  return new Intl.DateTimeFormat("en-US", { ...dateOptions, timeZone }).format(date);
 }
 
 export function formatShortDate(date: Date): string {
   return shortDateFormatter.format(date);
 }
+
+/** "2025-01" as "Jan 2025" */
+export function formatMonth(month: string): string {
+  const [year, monthNumber] = month.split("-").map(Number);
+  return monthFormatter.format(new Date(year, monthNumber - 1, 1));
+}
+
+export function formatHour(hour: number): string {
+  return `${String(hour).padStart(2, "0")}:00`;
+}
+
+export function formatChurn(churn: { additions: number; deletions: number }): string {
+  return `+${formatNumber(churn.additions)} / -${formatNumber(churn.deletions)}`;
+}
+
+/** "412h", "3h 20m" or "45m" */
+export function formatDuration(ms: number): string {
+  const totalMinutes = Math.round(ms / 60_000);
+  const hours = Math.floor(totalMinutes / 60);
+  const minutes = totalMinutes % 60;
+
+  if (hours >= 100) return `${formatNumber(hours)}h`;
+  if (hours > 0) return minutes > 0 ? `${hours}h ${minutes}m` : `${hours}h`;
+  return `${minutes}m`;
+}
+
+/** "850ms" or "4.2s" */
+export function formatLatency(ms: number): string {
+  return ms < 1000 ? `${Math.round(ms)}ms` : `${(ms / 1000).toFixed(1)}s`;
+}
+
+/** Ratio (0-1) as "2.5%", whole numbers from 10% up */
+export function formatPercent(ratio: number): string {
+  const percent = ratio * 100;
+  return `${percent >= 10 || percent === 0 ? Math.round(percent) : percent.toFixed(1)}%`;
+}